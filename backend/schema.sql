@@ -5,10 +5,18 @@ CREATE TABLE IF NOT EXISTS chains (
     chain_id INTEGER PRIMARY KEY,
     chain_name VARCHAR(50) NOT NULL,
     rpc_url TEXT,
+    rpc_urls TEXT[], -- all RPC endpoints, in order of preference
     xen_contract_address TEXT,
+    xen_genesis_ts BIGINT, -- genesisTs of the XEN contract, read on startup
     xburn_minter_contract_address TEXT,
     xburn_nft_contract_address TEXT,
+    start_block BIGINT, -- first block of the XBurn deployment
     last_indexed_block BIGINT DEFAULT 0,
+    confirmations INTEGER, -- blocks the indexer stays behind the head
+    finality_tag VARCHAR(10), -- safe or finalized to follow the node's block tags instead of confirmations
+    blocks_per_batch INTEGER, -- working getLogs range, adjusted by the indexer
+    enabled BOOLEAN NOT NULL DEFAULT true, -- picked up by the running indexer without a restart
+    admin_overrides TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[], -- columns changed through the admin API, which the registry no longer overwrites
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
@@ -23,11 +31,21 @@ CREATE TABLE IF NOT EXISTS burn_events (
     user_address TEXT,
     xen_amount_direct NUMERIC(78, 0),
     xen_amount_accumulated NUMERIC(78, 0),
+    xburn_amount NUMERIC(78, 0), -- XBURN amount for XBURNBurned / EmergencyEnd events
+    xburn_bonus_amount NUMERIC(78, 0), -- bonus part of xburn_amount for XBURNClaimed events
+    nft_id TEXT,
     contract_address TEXT NOT NULL,
     event_type TEXT NOT NULL,
+    log_index INTEGER NOT NULL, -- Position of the log in its block; identifies the event together with the transaction
     raw_log JSONB,
+    burn_source VARCHAR(20), -- xburn, protocol or direct; null for burns replayed without their transaction
+    burn_caller TEXT, -- contract called by the burning transaction, for protocol and direct burns
+    linked_event_id INTEGER, -- XENBurned event describing the same burn as this Transfer or XENAccumulated
+    xen_amount_reported NUMERIC(78, 0), -- amount reported by an XENBurned event
+    split_mismatch BOOLEAN NOT NULL DEFAULT false, -- XENBurned split differs from the expected one, or had no transfers
+    finality VARCHAR(10) NOT NULL DEFAULT 'pending', -- pending, safe or final
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-    UNIQUE(transaction_hash, event_type)
+    UNIQUE(chain_id, transaction_hash, log_index)
 );
 
 -- Burn positions table to track NFT burn positions
@@ -41,12 +59,17 @@ CREATE TABLE IF NOT EXISTS burn_positions (
     maturity_timestamp TIMESTAMP NOT NULL,
     mint_transaction_hash TEXT NOT NULL,
     mint_block_timestamp TIMESTAMP NOT NULL,
+    mint_block_number BIGINT,
     status TEXT NOT NULL, -- locked, claimed, emergency_withdrawn, etc.
     amplifier_at_burn NUMERIC(78, 0),
-    xburn_reward_potential NUMERIC(78, 0),
+    xburn_reward_potential NUMERIC(78, 0), -- rewardAmount from getLockDetails
+    xburn_reward_projected NUMERIC(78, 0), -- rewardAmount as getLockDetails last reported it, even when drift is not fixed
     claimed_transaction_hash TEXT,
     claimed_block_timestamp TIMESTAMP,
+    claimed_block_number BIGINT,
     claimed_xburn_amount NUMERIC(78, 0),
+    claimed_xburn_bonus NUMERIC(78, 0), -- bonus part of claimed_xburn_amount
+    finality VARCHAR(10) NOT NULL DEFAULT 'pending', -- pending, safe or final; follows the latest mint or claim block
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
     UNIQUE(chain_id, nft_id)
@@ -59,14 +82,19 @@ CREATE TABLE IF NOT EXISTS analytics (
     last_updated TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
--- Initialize Base chain in the chains table
-INSERT INTO chains (chain_id, chain_name, xen_contract_address, xburn_minter_contract_address, xburn_nft_contract_address)
+-- Initialize Base chain in the chains table; other chains come from the chain registry on startup
+INSERT INTO chains (chain_id, chain_name, rpc_url, rpc_urls, xen_contract_address, xburn_minter_contract_address, xburn_nft_contract_address, start_block, confirmations, blocks_per_batch)
 VALUES (
-    1, -- Using 1 as a placeholder, Base has chain_id 8453 but we're using 1 in our indexer 
+    8453,
     'Base',
+    'https://base.llamarpc.com',
+    ARRAY['https://base.llamarpc.com'],
     '0xffcbF84650cE02DaFE96926B37a0ac5E34932fa5',
     '0xe89AFDeFeBDba033f6e750615f0A0f1A37C78c4A',
-    '0x305C60D2fEf49FADfEe67EC530DE98f67bac861D'
+    '0x305C60D2fEf49FADfEe67EC530DE98f67bac861D',
+    7300000,
+    5,
+    2000
 )
 ON CONFLICT (chain_id) DO NOTHING;
 
@@ -77,6 +105,8 @@ CREATE INDEX IF NOT EXISTS burn_events_event_type_idx ON burn_events(event_type)
 CREATE INDEX IF NOT EXISTS burn_positions_user_address_idx ON burn_positions(user_address);
 CREATE INDEX IF NOT EXISTS burn_positions_status_idx ON burn_positions(status);
 CREATE INDEX IF NOT EXISTS burn_positions_maturity_idx ON burn_positions(maturity_timestamp);
+CREATE INDEX IF NOT EXISTS burn_events_unsettled_idx ON burn_events(chain_id, block_number) WHERE finality <> 'final';
+CREATE INDEX IF NOT EXISTS burn_positions_unsettled_idx ON burn_positions(chain_id) WHERE finality <> 'final';
 
 -- Function to update 'updated_at' columns
 CREATE OR REPLACE FUNCTION update_updated_at_column()
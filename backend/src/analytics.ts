@@ -47,7 +47,7 @@ export async function updateAnalytics() {
     await query(`
       INSERT INTO analytics (metric_name, metric_value, last_updated)
       VALUES ('total_xburn_burned', (
-        SELECT COALESCE(SUM(CAST(xen_amount_direct AS NUMERIC)), 0)
+        SELECT COALESCE(SUM(CAST(xburn_amount AS NUMERIC)), 0)
         FROM burn_events
         WHERE event_type = 'XBURNBurned'
       ), NOW())
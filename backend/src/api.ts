@@ -1,6 +1,33 @@
+import crypto from 'crypto';
 import express from 'express';
 import cors from 'cors';
+import { ethers } from 'ethers';
 import { Pool } from 'pg';
+import { ChainManager, ChainUpdate } from './indexer/managers/chainManager';
+import { DEFAULT_BLOCKS_PER_BATCH, DEFAULT_CONFIRMATIONS, parseRpcUrls, rewardTermsFor } from './indexer/config/chains';
+import { JobScheduler } from './indexer/services/jobScheduler';
+import { Finality, FINALITY_STATES, FINALITY_TAGS, FinalityTag } from './indexer/services/finality';
+import { BURN_SOURCES, BurnSource } from './indexer/processors/eventProcessor';
+import { AMP_START, amplifierAt, daysSinceGenesis } from './indexer/analytics/amplifier';
+import { BurnScenario, REWARD_FORMULA_VERIFIED, simulateBurn } from './indexer/analytics/rewardCalculator';
+import { ROLLUP_GRANULARITIES, ROLLUP_TABLES, RollupGranularity } from './indexer/analytics/rollups';
+
+/**
+ * In-process services exposed through the API
+ */
+export interface ApiServices {
+  chainManager?: ChainManager;
+  jobScheduler?: JobScheduler;
+}
+
+/**
+ * Handle on a running API server
+ */
+export interface ApiServer {
+  pause(): void;
+  resume(): void;
+  stop(): Promise<void>;
+}
 
 /**
  * Function to handle API route with an async handler
@@ -11,13 +38,456 @@ function asyncRoute(fn) {
   };
 }
 
+/**
+ * Parse ADMIN_API_TOKENS ("name:token,name:token") into a list of named tokens
+ * @param value Environment variable value
+ * @returns Admin names and tokens
+ */
+function parseAdminTokens(value: string): { name: string; token: string }[] {
+  return value.split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error('ADMIN_API_TOKENS entries must look like name:token');
+      }
+      return { name: entry.slice(0, separator), token: entry.slice(separator + 1) };
+    });
+}
+
+/**
+ * Require a bearer token from ADMIN_API_TOKENS; the admin's name is stored in res.locals.admin
+ * @param admins Admin names and tokens
+ * @returns Express middleware
+ */
+function requireAdmin(admins: { name: string; token: string }[]) {
+  // Compare digests so every comparison takes the same time regardless of token length
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  const known = admins.map(admin => ({ name: admin.name, digest: digest(admin.token) }));
+  
+  return (req, res, next) => {
+    if (known.length === 0) {
+      res.status(503).json({ error: 'Admin API disabled' });
+      return;
+    }
+    
+    const header = req.headers.authorization || '';
+    const presented = digest(header.startsWith('Bearer ') ? header.slice(7) : '');
+    const admin = known.find(entry => crypto.timingSafeEqual(entry.digest, presented));
+    
+    if (!admin) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    
+    res.locals.admin = admin.name;
+    next();
+  };
+}
+
+/**
+ * Parse a chain ID route parameter
+ * @param value Route parameter
+ * @returns Chain ID, or null if it is not a positive integer
+ */
+function parseChainId(value: string): number | null {
+  const chainId = Number(value);
+  return Number.isInteger(chainId) && chainId > 0 ? chainId : null;
+}
+
+/**
+ * Parse a finality query parameter
+ * @param value Comma-separated finality states, e.g. "safe,final"
+ * @returns Requested states, null if the parameter is absent, or undefined if it is invalid
+ */
+function parseFinality(value: unknown): Finality[] | null | undefined {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  
+  const states = String(value).split(',').map(state => state.trim());
+  return states.every(state => FINALITY_STATES.includes(state as Finality)) ? states as Finality[] : undefined;
+}
+
+/**
+ * Parse a timestamp query parameter
+ * @param value Unix seconds or an ISO date
+ * @returns Timestamp in seconds, or NaN if it cannot be parsed
+ */
+function parseTimestamp(value: string): number {
+  return /^\d+$/.test(value) ? Number(value) : Math.floor(Date.parse(value) / 1000);
+}
+
+// Buckets a metric history can be downsampled to
+const HISTORY_INTERVALS = ['minute', 'hour', 'day', 'week', 'month'];
+
+// Shortest length of each history interval in seconds, to bound the number of buckets in a range
+const HISTORY_INTERVAL_SECONDS: Record<string, number> = {
+  minute: 60,
+  hour: 60 * 60,
+  day: 24 * 60 * 60,
+  week: 7 * 24 * 60 * 60,
+  month: 28 * 24 * 60 * 60
+};
+
+// Most points a metric history returns
+const MAX_HISTORY_POINTS = 5000;
+
+// Most buckets a rollup query returns
+const MAX_ROLLUP_ROWS = 5000;
+
+/**
+ * Serialize a simulated burn scenario with amounts as wei strings
+ * @param scenario Burn scenario
+ * @returns JSON-ready scenario
+ */
+function scenarioToJson(scenario: BurnScenario) {
+  return {
+    waitDays: scenario.waitDays,
+    burnDate: scenario.burnDate.toISOString(),
+    maturityDate: scenario.maturityDate.toISOString(),
+    amplifier: scenario.amplifier,
+    baseMint: scenario.reward.baseMint.toString(),
+    bonus: scenario.reward.bonus.toString(),
+    xburn: scenario.reward.total.toString(),
+    change: scenario.change.toString()
+  };
+}
+
+/**
+ * Validate the chain settings in an admin request body
+ * @param body Request body
+ * @returns Parsed settings and the first validation error, if any
+ */
+function parseChainUpdate(body: Record<string, unknown>): { update: ChainUpdate; error: string | null } {
+  const update: ChainUpdate = {};
+  
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      return { update, error: 'name must be a non-empty string' };
+    }
+    update.name = body.name.trim();
+  }
+  
+  if (body.rpcUrls !== undefined) {
+    const rpcUrls = Array.isArray(body.rpcUrls) ? body.rpcUrls : parseRpcUrls(String(body.rpcUrls));
+    if (rpcUrls.length === 0 || rpcUrls.some(url => typeof url !== 'string' || !/^https?:\/\//.test(url))) {
+      return { update, error: 'rpcUrls must be a list of http(s) URLs' };
+    }
+    update.rpcUrls = rpcUrls;
+  }
+  
+  for (const field of ['xenContractAddress', 'xburnMinterAddress', 'xburnNftAddress']) {
+    if (body[field] !== undefined) {
+      if (!ethers.isAddress(body[field])) {
+        return { update, error: `${field} must be an address` };
+      }
+      update[field] = ethers.getAddress(body[field]);
+    }
+  }
+  
+  for (const field of ['confirmations', 'blocksPerBatch']) {
+    if (body[field] !== undefined) {
+      const value = Number(body[field]);
+      if (!Number.isInteger(value) || value < (field === 'confirmations' ? 0 : 1)) {
+        return { update, error: `${field} must be a ${field === 'confirmations' ? 'non-negative' : 'positive'} integer` };
+      }
+      update[field] = value;
+    }
+  }
+  
+  if (body.finalityTag !== undefined) {
+    if (body.finalityTag !== null && !FINALITY_TAGS.includes(body.finalityTag as FinalityTag)) {
+      return { update, error: `finalityTag must be null or one of ${FINALITY_TAGS.join(', ')}` };
+    }
+    update.finalityTag = body.finalityTag as FinalityTag | null;
+  }
+  
+  return { update, error: null };
+}
+
+/**
+ * Create the authenticated admin routes mounted at /api/admin
+ * @param db Database pool
+ * @param services In-process services the routes act on
+ * @returns Express router
+ */
+function createAdminRouter(db: Pool, services: ApiServices): express.Router {
+  const router = express.Router();
+  
+  router.use(requireAdmin(parseAdminTokens(process.env.ADMIN_API_TOKENS || '')));
+  
+  // Chain and job changes act on the indexer running in this process
+  router.use((req, res, next) => {
+    if (req.method !== 'GET' && !services.chainManager) {
+      res.status(503).json({ error: 'Indexer not running in this process' });
+      return;
+    }
+    next();
+  });
+  
+  /**
+   * Record an admin action in admin_audit_log
+   * @param res Response carrying the admin's name
+   * @param action Action name
+   * @param chainId Chain the action applies to, if any
+   * @param details Action parameters
+   */
+  const audit = async (res, action: string, chainId: number | null, details: object): Promise<void> => {
+    await db.query(
+      `INSERT INTO admin_audit_log (actor, action, chain_id, details, created_at)
+       VALUES ($1, $2, $3, $4, NOW())`,
+      [res.locals.admin, action, chainId, JSON.stringify(details)]
+    );
+    console.log(`Admin ${res.locals.admin} performed ${action}${chainId !== null ? ` on chain ${chainId}` : ''}`);
+  };
+  
+  /**
+   * Look up a chain row
+   * @param chainId Chain ID
+   * @returns Chain row, or null if the chain does not exist
+   */
+  const findChain = async (chainId: number) => {
+    const result = await db.query(`SELECT * FROM chains WHERE chain_id = $1`, [chainId]);
+    return result.rows.length > 0 ? result.rows[0] : null;
+  };
+  
+  // List chains with their full configuration
+  router.get('/chains', asyncRoute(async (req, res) => {
+    const result = await db.query(`
+      SELECT 
+        chain_id, chain_name, rpc_urls, 
+        xen_contract_address, xburn_minter_contract_address, xburn_nft_contract_address,
+        start_block, last_indexed_block, confirmations, finality_tag, blocks_per_batch, enabled, admin_overrides,
+        to_char(created_at, 'YYYY-MM-DD HH24:MI:SS') as created_at,
+        to_char(updated_at, 'YYYY-MM-DD HH24:MI:SS') as updated_at
+      FROM chains
+      ORDER BY chain_id
+    `);
+    
+    res.json(result.rows);
+  }));
+  
+  // Add a chain
+  router.post('/chains', asyncRoute(async (req, res) => {
+    const body = req.body || {};
+    const chainId = parseChainId(String(body.chainId));
+    const startBlock = Number(body.startBlock);
+    const { update, error } = parseChainUpdate(body);
+    
+    const missing = ['name', 'rpcUrls', 'xenContractAddress', 'xburnMinterAddress', 'xburnNftAddress']
+      .filter(field => update[field] === undefined);
+    
+    if (chainId === null || !Number.isInteger(startBlock) || startBlock < 0) {
+      res.status(400).json({ error: 'chainId and startBlock are required' });
+      return;
+    }
+    if (error || missing.length > 0) {
+      res.status(400).json({ error: error || `Missing ${missing.join(', ')}` });
+      return;
+    }
+    if (await findChain(chainId)) {
+      res.status(409).json({ error: `Chain ${chainId} already exists` });
+      return;
+    }
+    
+    const added = await services.chainManager.addChain({
+      chainId,
+      name: update.name,
+      rpcUrls: update.rpcUrls,
+      xenContractAddress: update.xenContractAddress,
+      xburnMinterAddress: update.xburnMinterAddress,
+      xburnNftAddress: update.xburnNftAddress,
+      startBlock,
+      confirmations: update.confirmations ?? DEFAULT_CONFIRMATIONS,
+      finalityTag: update.finalityTag ?? null,
+      blocksPerBatch: update.blocksPerBatch ?? DEFAULT_BLOCKS_PER_BATCH,
+      enabled: body.enabled !== false
+    });
+    
+    if (!added) {
+      res.status(500).json({ error: `Failed to add chain ${chainId}` });
+      return;
+    }
+    
+    await audit(res, 'add_chain', chainId, { ...update, startBlock, enabled: body.enabled !== false });
+    res.status(201).json(await findChain(chainId));
+  }));
+  
+  // Update a chain's settings
+  router.patch('/chains/:chainId', asyncRoute(async (req, res) => {
+    const chainId = parseChainId(req.params.chainId);
+    const { update, error } = parseChainUpdate(req.body || {});
+    
+    if (chainId === null || !(await findChain(chainId))) {
+      res.status(404).json({ error: 'Chain not found' });
+      return;
+    }
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    
+    if (!(await services.chainManager.updateChain(chainId, update))) {
+      res.status(500).json({ error: `Failed to update chain ${chainId}` });
+      return;
+    }
+    
+    await audit(res, 'update_chain', chainId, update);
+    res.json(await findChain(chainId));
+  }));
+  
+  // Enable or disable a chain
+  for (const action of ['enable', 'disable']) {
+    router.post(`/chains/:chainId/${action}`, asyncRoute(async (req, res) => {
+      const chainId = parseChainId(req.params.chainId);
+      
+      if (chainId === null || !(await findChain(chainId))) {
+        res.status(404).json({ error: 'Chain not found' });
+        return;
+      }
+      
+      const done = action === 'enable'
+        ? await services.chainManager.enableChain(chainId)
+        : await services.chainManager.disableChain(chainId);
+      
+      if (!done) {
+        res.status(500).json({ error: `Failed to ${action} chain ${chainId}` });
+        return;
+      }
+      
+      await audit(res, `${action}_chain`, chainId, {});
+      res.json(await findChain(chainId));
+    }));
+  }
+  
+  // Move a chain's checkpoint
+  router.post('/chains/:chainId/checkpoint', asyncRoute(async (req, res) => {
+    const chainId = parseChainId(req.params.chainId);
+    const block = Number((req.body || {}).block);
+    const chain = chainId === null ? null : await findChain(chainId);
+    
+    if (!chain) {
+      res.status(404).json({ error: 'Chain not found' });
+      return;
+    }
+    if (!Number.isInteger(block) || block < 0) {
+      res.status(400).json({ error: 'block must be a non-negative integer' });
+      return;
+    }
+    
+    if (!(await services.chainManager.resetCheckpoint(chainId, block))) {
+      res.status(500).json({ error: `Failed to reset the checkpoint of chain ${chainId}` });
+      return;
+    }
+    
+    await audit(res, 'reset_checkpoint', chainId, { from: Number(chain.last_indexed_block), to: block });
+    res.json(await findChain(chainId));
+  }));
+  
+  // Queue a block range for reindexing
+  router.post('/reindex', asyncRoute(async (req, res) => {
+    const body = req.body || {};
+    const chainId = parseChainId(String(body.chainId));
+    const fromBlock = Number(body.fromBlock);
+    const toBlock = Number(body.toBlock);
+    
+    if (chainId === null || !(await findChain(chainId))) {
+      res.status(404).json({ error: 'Chain not found' });
+      return;
+    }
+    if (!Number.isInteger(fromBlock) || !Number.isInteger(toBlock) || fromBlock < 0 || fromBlock > toBlock) {
+      res.status(400).json({ error: 'fromBlock and toBlock must be integers with fromBlock <= toBlock' });
+      return;
+    }
+    
+    const jobId = await services.chainManager.enqueueReindex(chainId, fromBlock, toBlock);
+    
+    await audit(res, 'enqueue_reindex', chainId, { jobId, fromBlock, toBlock });
+    res.status(202).json({ jobId, chainId, fromBlock, toBlock, status: 'queued' });
+  }));
+  
+  // List reindex jobs
+  router.get('/reindex', asyncRoute(async (req, res) => {
+    const limit = parseInt(req.query.limit as string) || 50;
+    
+    const result = await db.query(
+      `SELECT 
+        id, chain_id, from_block, to_block, last_block, status, events_applied, error,
+        to_char(created_at, 'YYYY-MM-DD HH24:MI:SS') as created_at,
+        to_char(updated_at, 'YYYY-MM-DD HH24:MI:SS') as updated_at,
+        to_char(completed_at, 'YYYY-MM-DD HH24:MI:SS') as completed_at
+       FROM reindex_jobs
+       ORDER BY id DESC
+       LIMIT $1`,
+      [limit]
+    );
+    
+    res.json(result.rows);
+  }));
+  
+  // Run a job now; it keeps running after the response
+  router.post('/jobs/:name/run', asyncRoute(async (req, res) => {
+    const scheduler = services.jobScheduler;
+    const name = req.params.name;
+    
+    if (!scheduler) {
+      res.status(503).json({ error: 'Job scheduler not available' });
+      return;
+    }
+    
+    if (!scheduler.hasJob(name)) {
+      res.status(404).json({ error: `Unknown job ${name}` });
+      return;
+    }
+    
+    if (scheduler.isRunning(name)) {
+      res.status(409).json({ error: `Job ${name} is already running` });
+      return;
+    }
+    
+    const runId = await scheduler.trigger(name);
+    
+    await audit(res, 'run_job', null, { job: name, runId });
+    res.status(202).json({ job: name, runId });
+  }));
+  
+  // Get the audit log
+  router.get('/audit', asyncRoute(async (req, res) => {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : null;
+    
+    const whereClause = chainId ? 'WHERE chain_id = $2' : '';
+    const params = chainId ? [limit, chainId] : [limit];
+    
+    const result = await db.query(
+      `SELECT 
+        id, actor, action, chain_id, details,
+        to_char(created_at, 'YYYY-MM-DD HH24:MI:SS') as created_at
+       FROM admin_audit_log
+       ${whereClause}
+       ORDER BY id DESC
+       LIMIT $1`,
+      params
+    );
+    
+    res.json(result.rows);
+  }));
+  
+  return router;
+}
+
 /**
  * Start the API server
  * @param db Database pool
  * @param port Port number to listen on
+ * @param services In-process services backing live status endpoints
+ * @returns Handle to pause, resume or stop the server
  */
-export function startApiServer(db: Pool, port: number = 3000): void {
+export function startApiServer(db: Pool, port: number = 3000, services: ApiServices = {}): ApiServer {
   const app = express();
+  let paused = false;
   
   // Enable CORS
   app.use(cors());
@@ -31,6 +501,15 @@ export function startApiServer(db: Pool, port: number = 3000): void {
     next();
   });
   
+  // Reject data requests while paused; the health check keeps answering
+  app.use((req, res, next) => {
+    if (paused && req.path !== '/health') {
+      res.status(503).json({ error: 'Service paused' });
+      return;
+    }
+    next();
+  });
+  
   // Health check endpoint
   app.get('/health', (req, res) => {
     res.status(200).json({ status: 'ok' });
@@ -43,22 +522,60 @@ export function startApiServer(db: Pool, port: number = 3000): void {
     const result = await db.query(`
       SELECT 
         chain_id, chain_name, 
-        last_indexed_block, 
+        xen_contract_address, xburn_minter_contract_address, xburn_nft_contract_address,
+        start_block, last_indexed_block, confirmations, finality_tag, enabled,
         to_char(updated_at, 'YYYY-MM-DD HH24:MI:SS') as last_update
       FROM chains
+      ORDER BY chain_id
     `);
     
     res.json(result.rows);
   }));
   
+  // Get RPC endpoint health per chain
+  app.get('/api/rpc/health', (req, res) => {
+    if (!services.chainManager) {
+      res.status(503).json({ error: 'Indexer not running in this process' });
+      return;
+    }
+    
+    res.json(services.chainManager.getRpcHealth());
+  });
+  
   // Get recent burns
   app.get('/api/burns/recent', asyncRoute(async (req, res) => {
     const limit = parseInt(req.query.limit as string) || 10;
     const offset = parseInt(req.query.offset as string) || 0;
     const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : null;
+    const finality = parseFinality(req.query.finality);
+    const source = req.query.source as string || null;
     
-    const whereClause = chainId ? 'WHERE chain_id = $3' : '';
-    const params = chainId ? [limit, offset, chainId] : [limit, offset];
+    if (finality === undefined) {
+      return res.status(400).json({ error: `finality must be a comma-separated list of ${FINALITY_STATES.join(', ')}` });
+    }
+    if (source && !BURN_SOURCES.includes(source as BurnSource)) {
+      return res.status(400).json({ error: `source must be one of ${BURN_SOURCES.join(', ')}` });
+    }
+    
+    const conditions: string[] = [];
+    const params: unknown[] = [limit, offset];
+    
+    if (chainId) {
+      params.push(chainId);
+      conditions.push('chain_id = $' + params.length);
+    }
+    
+    if (finality) {
+      params.push(finality);
+      conditions.push('finality = ANY($' + params.length + ')');
+    }
+    
+    if (source) {
+      params.push(source);
+      conditions.push('burn_source = $' + params.length);
+    }
+    
+    const whereClause = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
     
     const result = await db.query(
       `SELECT 
@@ -71,7 +588,11 @@ export function startApiServer(db: Pool, port: number = 3000): void {
         xen_amount_accumulated,
         contract_address,
         event_type,
-        nft_id
+        nft_id,
+        burn_source,
+        burn_caller,
+        linked_event_id,
+        finality
        FROM burn_events
        ${whereClause}
        ORDER BY block_timestamp DESC
@@ -87,6 +608,34 @@ export function startApiServer(db: Pool, port: number = 3000): void {
     const address = req.params.address.toLowerCase();
     const limit = parseInt(req.query.limit as string) || 10;
     const offset = parseInt(req.query.offset as string) || 0;
+    const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : null;
+    const finality = parseFinality(req.query.finality);
+    const source = req.query.source as string || null;
+    
+    if (finality === undefined) {
+      return res.status(400).json({ error: `finality must be a comma-separated list of ${FINALITY_STATES.join(', ')}` });
+    }
+    if (source && !BURN_SOURCES.includes(source as BurnSource)) {
+      return res.status(400).json({ error: `source must be one of ${BURN_SOURCES.join(', ')}` });
+    }
+    
+    let whereClause = 'WHERE user_address = $1';
+    const params: unknown[] = [address, limit, offset];
+    
+    if (chainId) {
+      params.push(chainId);
+      whereClause += ' AND chain_id = $' + params.length;
+    }
+    
+    if (finality) {
+      params.push(finality);
+      whereClause += ' AND finality = ANY($' + params.length + ')';
+    }
+    
+    if (source) {
+      params.push(source);
+      whereClause += ' AND burn_source = $' + params.length;
+    }
     
     const result = await db.query(
       `SELECT 
@@ -99,12 +648,16 @@ export function startApiServer(db: Pool, port: number = 3000): void {
         xen_amount_accumulated,
         contract_address,
         event_type,
-        nft_id
+        nft_id,
+        burn_source,
+        burn_caller,
+        linked_event_id,
+        finality
        FROM burn_events
-       WHERE user_address = $1
+       ${whereClause}
        ORDER BY block_timestamp DESC
        LIMIT $2 OFFSET $3`,
-      [address, limit, offset]
+      params
     );
     
     res.json(result.rows);
@@ -116,9 +669,14 @@ export function startApiServer(db: Pool, port: number = 3000): void {
     const offset = parseInt(req.query.offset as string) || 0;
     const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : null;
     const status = req.query.status as string || null;
+    const finality = parseFinality(req.query.finality);
+    
+    if (finality === undefined) {
+      return res.status(400).json({ error: `finality must be a comma-separated list of ${FINALITY_STATES.join(', ')}` });
+    }
     
     let whereClause = '';
-    const params: any[] = [limit, offset];
+    const params: unknown[] = [limit, offset];
     let paramIndex = 3;
     
     if (chainId) {
@@ -130,7 +688,14 @@ export function startApiServer(db: Pool, port: number = 3000): void {
     if (status) {
       whereClause += whereClause ? ' AND ' : 'WHERE ';
       whereClause += 'status = $' + paramIndex;
-      params.push(status as any);
+      params.push(status);
+      paramIndex++;
+    }
+    
+    if (finality) {
+      whereClause += whereClause ? ' AND ' : 'WHERE ';
+      whereClause += 'finality = ANY($' + paramIndex + ')';
+      params.push(finality);
     }
     
     const result = await db.query(
@@ -146,9 +711,12 @@ export function startApiServer(db: Pool, port: number = 3000): void {
         status,
         amplifier_at_burn,
         xburn_reward_potential,
+        xburn_reward_projected,
         claimed_transaction_hash,
         to_char(claimed_block_timestamp, 'YYYY-MM-DD HH24:MI:SS') as claimed_block_timestamp,
-        claimed_xburn_amount
+        claimed_xburn_amount,
+        claimed_xburn_bonus,
+        finality
        FROM burn_positions
        ${whereClause}
        ORDER BY mint_block_timestamp DESC
@@ -164,14 +732,30 @@ export function startApiServer(db: Pool, port: number = 3000): void {
     const address = req.params.address.toLowerCase();
     const limit = parseInt(req.query.limit as string) || 10;
     const offset = parseInt(req.query.offset as string) || 0;
+    const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : null;
     const status = req.query.status as string || null;
+    const finality = parseFinality(req.query.finality);
+    
+    if (finality === undefined) {
+      return res.status(400).json({ error: `finality must be a comma-separated list of ${FINALITY_STATES.join(', ')}` });
+    }
     
     let whereClause = 'WHERE user_address = $1';
-    const params: any[] = [address, limit, offset];
+    const params: unknown[] = [address, limit, offset];
+    
+    if (chainId) {
+      params.push(chainId);
+      whereClause += ' AND chain_id = $' + params.length;
+    }
     
     if (status) {
-      whereClause += ' AND status = $4';
-      params.push(status as any);
+      params.push(status);
+      whereClause += ' AND status = $' + params.length;
+    }
+    
+    if (finality) {
+      params.push(finality);
+      whereClause += ' AND finality = ANY($' + params.length + ')';
     }
     
     const result = await db.query(
@@ -187,9 +771,12 @@ export function startApiServer(db: Pool, port: number = 3000): void {
         status,
         amplifier_at_burn,
         xburn_reward_potential,
+        xburn_reward_projected,
         claimed_transaction_hash,
         to_char(claimed_block_timestamp, 'YYYY-MM-DD HH24:MI:SS') as claimed_block_timestamp,
-        claimed_xburn_amount
+        claimed_xburn_amount,
+        claimed_xburn_bonus,
+        finality
        FROM burn_positions
        ${whereClause}
        ORDER BY mint_block_timestamp DESC
@@ -200,13 +787,368 @@ export function startApiServer(db: Pool, port: number = 3000): void {
     res.json(result.rows);
   }));
   
+  // Get recent chain reorganizations
+  app.get('/api/reorgs', asyncRoute(async (req, res) => {
+    const limit = parseInt(req.query.limit as string) || 10;
+    const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : null;
+    
+    const whereClause = chainId ? 'WHERE chain_id = $2' : '';
+    const params = chainId ? [limit, chainId] : [limit];
+    
+    const result = await db.query(
+      `SELECT 
+        chain_id,
+        detected_block,
+        common_ancestor,
+        depth,
+        orphaned_hash,
+        canonical_hash,
+        events_removed,
+        positions_removed,
+        positions_reverted,
+        to_char(detected_at, 'YYYY-MM-DD HH24:MI:SS') as detected_at
+       FROM reorg_log
+       ${whereClause}
+       ORDER BY detected_at DESC
+       LIMIT $1`,
+      params
+    );
+    
+    res.json(result.rows);
+  }));
+  
+  // Get differences found between burn_positions and XBurnNFT.getLockDetails
+  app.get('/api/positions/drift', asyncRoute(async (req, res) => {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : null;
+    
+    const whereClause = chainId ? 'WHERE chain_id = $2' : '';
+    const params = chainId ? [limit, chainId] : [limit];
+    
+    const result = await db.query(
+      `SELECT 
+        chain_id,
+        nft_id,
+        field,
+        db_value,
+        chain_value,
+        fixed,
+        to_char(detected_at, 'YYYY-MM-DD HH24:MI:SS') as detected_at
+       FROM position_drift
+       ${whereClause}
+       ORDER BY detected_at DESC
+       LIMIT $1`,
+      params
+    );
+    
+    res.json(result.rows);
+  }));
+  
+  // Get XBurn burns whose observed split differs from the expected one
+  app.get('/api/burns/split-mismatches', asyncRoute(async (req, res) => {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : null;
+    
+    const whereClause = chainId ? 'AND chain_id = $2' : '';
+    const params = chainId ? [limit, chainId] : [limit];
+    
+    const result = await db.query(
+      `SELECT 
+        id,
+        chain_id,
+        transaction_hash,
+        block_number,
+        to_char(block_timestamp, 'YYYY-MM-DD HH24:MI:SS') as block_timestamp,
+        user_address,
+        xen_amount_reported,
+        xen_amount_direct,
+        xen_amount_accumulated
+       FROM burn_events
+       WHERE event_type = 'XENBurned' AND split_mismatch = true
+       ${whereClause}
+       ORDER BY block_timestamp DESC
+       LIMIT $1`,
+      params
+    );
+    
+    res.json(result.rows);
+  }));
+  
+  // List scheduled jobs with their latest run
+  app.get('/api/jobs', asyncRoute(async (req, res) => {
+    if (!services.jobScheduler) {
+      res.status(503).json({ error: 'Job scheduler not available' });
+      return;
+    }
+    
+    const result = await db.query(`
+      SELECT DISTINCT ON (job_name)
+        job_name, status, error,
+        to_char(started_at, 'YYYY-MM-DD HH24:MI:SS') as started_at,
+        to_char(finished_at, 'YYYY-MM-DD HH24:MI:SS') as finished_at
+      FROM job_runs
+      ORDER BY job_name, job_runs.started_at DESC
+    `);
+    const lastRuns = new Map(result.rows.map(row => [row.job_name, row]));
+    
+    res.json(services.jobScheduler.getJobs().map(job => ({
+      ...job,
+      lastRun: lastRuns.get(job.name) || null
+    })));
+  }));
+  
+  // Get recent job runs
+  app.get('/api/jobs/runs', asyncRoute(async (req, res) => {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const job = req.query.job as string;
+    
+    const whereClause = job ? 'WHERE job_name = $2' : '';
+    const params = job ? [limit, job] : [limit];
+    
+    const result = await db.query(
+      `SELECT 
+        id, job_name, trigger, status, details, error,
+        to_char(started_at, 'YYYY-MM-DD HH24:MI:SS') as started_at,
+        to_char(finished_at, 'YYYY-MM-DD HH24:MI:SS') as finished_at,
+        EXTRACT(EPOCH FROM (finished_at - job_runs.started_at)) as duration_seconds
+       FROM job_runs
+       ${whereClause}
+       ORDER BY job_runs.started_at DESC
+       LIMIT $1`,
+      params
+    );
+    
+    res.json(result.rows);
+  }));
+  
+  // Get recent failed job runs
+  app.get('/api/jobs/failures', asyncRoute(async (req, res) => {
+    const limit = parseInt(req.query.limit as string) || 50;
+    
+    const result = await db.query(
+      `SELECT 
+        id, job_name, trigger, error,
+        to_char(started_at, 'YYYY-MM-DD HH24:MI:SS') as started_at,
+        to_char(finished_at, 'YYYY-MM-DD HH24:MI:SS') as finished_at
+       FROM job_runs
+       WHERE status = 'failure'
+       ORDER BY job_runs.started_at DESC
+       LIMIT $1`,
+      [limit]
+    );
+    
+    res.json(result.rows);
+  }));
+  
+  // Authenticated chain management, reindexing and job triggers
+  app.use('/api/admin', createAdminRouter(db, services));
+  
+  // Get the XEN amplifier of a chain at a timestamp (unix seconds or ISO date, default now)
+  app.get('/api/amplifier', asyncRoute(async (req, res) => {
+    const chainId = parseChainId(String(req.query.chainId));
+    const timestamp = req.query.timestamp ? parseTimestamp(req.query.timestamp as string) : Math.floor(Date.now() / 1000);
+    
+    if (chainId === null) {
+      return res.status(400).json({ error: 'chainId is required' });
+    }
+    if (Number.isNaN(timestamp)) {
+      return res.status(400).json({ error: 'timestamp must be unix seconds or an ISO date' });
+    }
+    
+    const result = await db.query(`SELECT xen_genesis_ts FROM chains WHERE chain_id = $1`, [chainId]);
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Chain not found' });
+    }
+    if (result.rows[0].xen_genesis_ts === null) {
+      return res.status(503).json({ error: `XEN genesis of chain ${chainId} not known yet` });
+    }
+    
+    const genesisTs = Number(result.rows[0].xen_genesis_ts);
+    
+    res.json({
+      chainId,
+      genesisTs,
+      timestamp,
+      daysSinceGenesis: daysSinceGenesis(genesisTs, timestamp),
+      amplifier: amplifierAt(genesisTs, timestamp)
+    });
+  }));
+  
+  // Simulate a burn now and after waiting, e.g. ?xen=1000000&termDays=365&chainId=8453&waitDays=1,7,30
+  app.get('/api/simulate', asyncRoute(async (req, res) => {
+    const chainId = parseChainId(String(req.query.chainId));
+    const termDays = Number(req.query.termDays);
+    const waitDays = String(req.query.waitDays || '1,7,30,90').split(',').map(Number);
+    const terms = chainId === null ? null : rewardTermsFor(chainId);
+    
+    let xenAmount: bigint;
+    try {
+      xenAmount = ethers.parseUnits(String(req.query.xen), 18);
+    } catch {
+      xenAmount = BigInt(0);
+    }
+    
+    if (chainId === null) {
+      return res.status(400).json({ error: 'chainId is required' });
+    }
+    if (xenAmount <= BigInt(0)) {
+      return res.status(400).json({ error: 'xen must be a positive XEN amount' });
+    }
+    if (!Number.isInteger(termDays) || termDays < 1 || termDays > terms.maxTermDays) {
+      return res.status(400).json({ error: `termDays must be an integer between 1 and ${terms.maxTermDays}` });
+    }
+    if (waitDays.some(days => !Number.isInteger(days) || days < 1 || days > AMP_START)) {
+      return res.status(400).json({ error: `waitDays must be a comma-separated list of integers between 1 and ${AMP_START}` });
+    }
+    
+    const result = await db.query(`SELECT xen_genesis_ts FROM chains WHERE chain_id = $1`, [chainId]);
+    
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Chain not found' });
+    }
+    if (result.rows[0].xen_genesis_ts === null) {
+      return res.status(503).json({ error: `XEN genesis of chain ${chainId} not known yet` });
+    }
+    
+    const [now, ...later] = simulateBurn(
+      xenAmount,
+      termDays,
+      Number(result.rows[0].xen_genesis_ts),
+      Math.floor(Date.now() / 1000),
+      waitDays,
+      terms
+    );
+    
+    res.json({
+      chainId,
+      xen: xenAmount.toString(),
+      termDays,
+      // The projections come from an estimate of the reward formula, not from the contract
+      verified: REWARD_FORMULA_VERIFIED,
+      ...(REWARD_FORMULA_VERIFIED ? {} : { warning: 'Unverified estimate: the XBurnMinter reward formula has not been checked against the contract' }),
+      ...scenarioToJson(now),
+      ifWaiting: later.map(scenarioToJson)
+    });
+  }));
+  
+  // Get hourly or daily rollups per chain and event type
+  app.get('/api/rollups', asyncRoute(async (req, res) => {
+    const granularity = ((req.query.granularity as string) || 'day') as RollupGranularity;
+    const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : null;
+    const eventType = (req.query.eventType as string) || 'Transfer';
+    const to = req.query.to ? parseTimestamp(req.query.to as string) : Math.floor(Date.now() / 1000);
+    const from = req.query.from ? parseTimestamp(req.query.from as string) : to - 30 * 24 * 60 * 60;
+    
+    if (!ROLLUP_GRANULARITIES.includes(granularity)) {
+      return res.status(400).json({ error: `granularity must be one of ${ROLLUP_GRANULARITIES.join(', ')}` });
+    }
+    
+    if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+      return res.status(400).json({ error: 'from and to must be unix seconds or ISO dates with from <= to' });
+    }
+    
+    // Buckets are UTC; a bucket is included if it starts in the range
+    const result = await db.query(
+      `SELECT 
+        chain_id,
+        to_char(bucket, 'YYYY-MM-DD HH24:MI:SS') as bucket,
+        event_type,
+        burn_volume,
+        tx_count,
+        unique_burners,
+        positions_opened,
+        positions_claimed,
+        xburn_claimed
+       FROM ${ROLLUP_TABLES[granularity]}
+       WHERE event_type = $1
+         AND ($2::integer IS NULL OR chain_id = $2::integer)
+         AND bucket >= date_trunc('${granularity}', to_timestamp($3) AT TIME ZONE 'UTC')
+         AND bucket <= to_timestamp($4) AT TIME ZONE 'UTC'
+       ORDER BY bucket, chain_id
+       LIMIT $5`,
+      [eventType, chainId, from, to, MAX_ROLLUP_ROWS]
+    );
+    
+    res.json({
+      granularity,
+      event_type: eventType,
+      from: new Date(from * 1000).toISOString(),
+      to: new Date(to * 1000).toISOString(),
+      rollups: result.rows
+    });
+  }));
+  
+  // Get the history of a metric, downsampled to one point per interval
+  app.get('/api/analytics/:metricName/history', asyncRoute(async (req, res) => {
+    const metricName = req.params.metricName;
+    const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : null;
+    const to = req.query.to ? parseTimestamp(req.query.to as string) : Math.floor(Date.now() / 1000);
+    const from = req.query.from ? parseTimestamp(req.query.from as string) : to - 30 * 24 * 60 * 60;
+    
+    if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+      return res.status(400).json({ error: 'from and to must be unix seconds or ISO dates with from <= to' });
+    }
+    
+    // Default to hourly points up to a week and daily points up to a year
+    const days = (to - from) / (24 * 60 * 60);
+    const interval = (req.query.interval as string) || (days <= 7 ? 'hour' : days <= 366 ? 'day' : 'week');
+    
+    if (!HISTORY_INTERVALS.includes(interval)) {
+      return res.status(400).json({ error: `interval must be one of ${HISTORY_INTERVALS.join(', ')}` });
+    }
+    
+    // Refuse ranges that could need more points than we return rather than cutting off the newest ones
+    const buckets = Math.ceil((to - from) / HISTORY_INTERVAL_SECONDS[interval]) + 1;
+    if (buckets > MAX_HISTORY_POINTS) {
+      return res.status(400).json({ error: `from and to span up to ${buckets} ${interval} intervals; use a coarser interval or a range of at most ${MAX_HISTORY_POINTS}` });
+    }
+    
+    // Same name resolution as the latest value: per-chain, then the _all aggregate, then a global metric
+    const names = chainId ? [`${metricName}_${chainId}`] : [`${metricName}_all`, metricName];
+    const existing = await db.query(
+      `SELECT metric_name FROM analytics WHERE metric_name = ANY($1)`,
+      [names]
+    );
+    const name = names.find(candidate => existing.rows.some(row => row.metric_name === candidate));
+    
+    if (!name) {
+      return res.status(404).json({ error: 'Metric not found' });
+    }
+    
+    // Each bucket reports the last value recorded in it, with the range of values seen
+    const result = await db.query(
+      `SELECT 
+        to_char(date_trunc($2, recorded_at), 'YYYY-MM-DD HH24:MI:SS') as bucket,
+        (array_agg(metric_value ORDER BY recorded_at DESC))[1] as value,
+        MIN(metric_value) as min,
+        MAX(metric_value) as max,
+        COUNT(*) as points
+       FROM analytics_history
+       WHERE metric_name = $1
+         AND recorded_at >= to_timestamp($3)::timestamp
+         AND recorded_at <= to_timestamp($4)::timestamp
+       GROUP BY date_trunc($2, recorded_at)
+       ORDER BY date_trunc($2, recorded_at)`,
+      [name, interval, from, to]
+    );
+    
+    res.json({
+      metric_name: name,
+      interval,
+      from: new Date(from * 1000).toISOString(),
+      to: new Date(to * 1000).toISOString(),
+      series: result.rows
+    });
+  }));
+  
   // Get analytics by metric
   app.get('/api/analytics/:metricName', asyncRoute(async (req, res) => {
     const metricName = req.params.metricName;
     const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : null;
     
     let query = 'SELECT metric_name, metric_value, to_char(last_updated, \'YYYY-MM-DD HH24:MI:SS\') as last_updated FROM analytics';
-    let params: any[] = [];
+    const params: unknown[] = [];
     
     if (metricName === 'all') {
       if (chainId) {
@@ -217,8 +1159,10 @@ export function startApiServer(db: Pool, port: number = 3000): void {
       query += ' WHERE metric_name = $1';
       params.push(`${metricName}_${chainId}`);
     } else {
-      query += ' WHERE metric_name = $1';
-      params.push(metricName);
+      // Per-chain metrics are aggregated under the _all suffix; global ones have no suffix.
+      // The aggregate wins when both exist, as in the history route.
+      query += ' WHERE metric_name = ANY($1) ORDER BY metric_name = $2 DESC';
+      params.push([`${metricName}_all`, metricName], `${metricName}_all`);
     }
     
     const result = await db.query(query, params);
@@ -235,13 +1179,29 @@ export function startApiServer(db: Pool, port: number = 3000): void {
   }));
   
   // Error handling middleware
-  app.use((err, req, res, next) => {
+  app.use((err, req, res, _next) => {
     console.error('API Error:', err);
     res.status(500).json({ error: 'Internal server error' });
   });
   
   // Start server
-  app.listen(port, () => {
+  const server = app.listen(port, () => {
     console.log(`API server running on port ${port}`);
   });
+  
+  return {
+    pause: () => {
+      paused = true;
+      console.log('API server paused');
+    },
+    resume: () => {
+      paused = false;
+      console.log('API server resumed');
+    },
+    stop: () => new Promise<void>((resolve, reject) => {
+      // Stop accepting connections, let in-flight requests finish and drop idle keep-alive sockets
+      server.close(error => error ? reject(error) : resolve());
+      server.closeIdleConnections();
+    })
+  };
 } 
\ No newline at end of file
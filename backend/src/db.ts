@@ -19,7 +19,7 @@ pool.on('error', (err: Error) => {
   process.exit(-1);
 });
 
-export const query = async (text: string, params?: any[]) => {
+export const query = async (text: string, params?: unknown[]) => {
   try {
     const start = Date.now();
     const res = await pool.query(text, params);
@@ -1,12 +1,30 @@
+import fs from 'fs';
+import path from 'path';
 import { Pool } from 'pg';
 import dotenv from 'dotenv';
 import { ChainManager } from './indexer/managers/chainManager';
 import { AnalyticsEngine } from './indexer/analytics/analyticsEngine';
-import { startApiServer } from './api';
+import { JobScheduler } from './indexer/services/jobScheduler';
+import { ApiServer, startApiServer } from './api';
+import { BASE_CHAIN, findRegisteredChain } from './indexer/config/chains';
+import { INDEXER_TABLES_SQL } from './indexerTables';
 
 // Load environment variables
 dotenv.config();
 
+// Maximum time to wait for in-flight work on shutdown before exiting anyway
+const SHUTDOWN_TIMEOUT_MS = 60000;
+
+// Chain ID the original schema seed used for Base
+const LEGACY_BASE_CHAIN_ID = 1;
+
+// Tables whose rows belong to a chain
+const CHAIN_SCOPED_TABLES = [
+  'burn_events', 'burn_positions', 'raw_logs', 'block_timestamps', 'indexed_blocks', 'block_coverage',
+  'block_gaps', 'validation_stats', 'position_drift', 'reindex_jobs', 'reorg_log', 'data_integrity',
+  'burn_rollups_hourly', 'burn_rollups_daily', 'burn_callers'
+];
+
 /**
  * Main application class for the XEN Burn Analytics system
  */
@@ -14,6 +32,9 @@ class XENBurnTracker {
   private db: Pool;
   private chainManager: ChainManager;
   private analyticsEngine: AnalyticsEngine;
+  private jobScheduler: JobScheduler;
+  private apiServer: ApiServer | null = null;
+  private isShuttingDown: boolean = false;
   
   /**
    * Initialize the XEN Burn Analytics system
@@ -36,6 +57,7 @@ class XENBurnTracker {
     // Initialize components
     this.chainManager = new ChainManager(this.db);
     this.analyticsEngine = new AnalyticsEngine(this.db);
+    this.jobScheduler = new JobScheduler(this.db);
   }
   
   /**
@@ -52,17 +74,28 @@ class XENBurnTracker {
       // Initialize tables if they don't exist
       await this.initializeTables();
       
+      // Backfill rollups before any batch can write partial ones
+      await this.analyticsEngine.backfillRollups();
+      
       // Initialize chain manager
       await this.chainManager.initialize();
       console.log('Chain manager initialized');
       
-      // Schedule analytics refreshes
-      this.analyticsEngine.scheduleRefreshes();
-      console.log('Analytics refreshes scheduled');
+      // Run analytics refreshes once on startup
+      this.analyticsEngine.start();
+      
+      // Schedule validation, reconciliation and analytics jobs
+      this.chainManager.registerJobs(this.jobScheduler);
+      this.analyticsEngine.registerJobs(this.jobScheduler);
+      await this.jobScheduler.start();
+      console.log('Jobs scheduled');
       
       // Start API server
       const port = parseInt(process.env.API_PORT || '3000');
-      startApiServer(this.db, port);
+      this.apiServer = startApiServer(this.db, port, {
+        chainManager: this.chainManager,
+        jobScheduler: this.jobScheduler
+      });
       console.log(`API server started on port ${port}`);
       
       console.log('XEN Burn Analytics is running');
@@ -72,6 +105,43 @@ class XENBurnTracker {
     }
   }
   
+  /**
+   * Stop accepting requests, let in-flight batches and refreshes finish, then close the database pool
+   * @param signal Signal that triggered the shutdown
+   */
+  async shutdown(signal: string): Promise<void> {
+    if (this.isShuttingDown) {
+      return;
+    }
+    
+    this.isShuttingDown = true;
+    console.log(`Received ${signal}, shutting down...`);
+    
+    // Exit anyway if something hangs; nothing is committed outside a batch transaction
+    const forceExit = setTimeout(() => {
+      console.error(`Shutdown did not finish within ${SHUTDOWN_TIMEOUT_MS}ms, exiting`);
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS);
+    forceExit.unref();
+    
+    try {
+      if (this.apiServer) {
+        await this.apiServer.stop();
+      }
+      
+      // Stopping the chain manager also tells long-running jobs (gap repair, queued reindexes) to stop early
+      await Promise.all([this.jobScheduler.stop(), this.chainManager.stop()]);
+      await this.analyticsEngine.stop();
+      await this.db.end();
+      
+      console.log('XEN Burn Analytics stopped');
+      process.exit(0);
+    } catch (error) {
+      console.error('Error during shutdown:', error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  }
+  
   /**
    * Initialize database tables if they don't exist
    */
@@ -93,8 +163,6 @@ class XENBurnTracker {
         console.log('Tables not found, creating schema...');
         
         // Read schema file
-        const fs = require('fs');
-        const path = require('path');
         const schema = fs.readFileSync(path.join(__dirname, '../schema.sql'), 'utf8');
         
         // Execute schema
@@ -104,46 +172,274 @@ class XENBurnTracker {
         console.log('Tables already exist, skipping schema creation');
       }
       
-      // Add additional tables if needed for this implementation
+      // Add columns introduced after the initial schema
       await this.db.query(`
-        CREATE TABLE IF NOT EXISTS block_timestamps (
-          chain_id INTEGER NOT NULL,
-          block_number BIGINT NOT NULL,
-          block_timestamp TIMESTAMP NOT NULL,
-          PRIMARY KEY (chain_id, block_number)
-        );
+        ALTER TABLE chains ADD COLUMN IF NOT EXISTS blocks_per_batch INTEGER;
+        ALTER TABLE chains ADD COLUMN IF NOT EXISTS rpc_urls TEXT[];
+        ALTER TABLE chains ADD COLUMN IF NOT EXISTS start_block BIGINT;
+        ALTER TABLE chains ADD COLUMN IF NOT EXISTS confirmations INTEGER;
+        ALTER TABLE chains ADD COLUMN IF NOT EXISTS enabled BOOLEAN NOT NULL DEFAULT true;
+        ALTER TABLE chains ADD COLUMN IF NOT EXISTS finality_tag VARCHAR(10);
+        ALTER TABLE chains ADD COLUMN IF NOT EXISTS xen_genesis_ts BIGINT;
+        ALTER TABLE chains ADD COLUMN IF NOT EXISTS admin_overrides TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+        UPDATE chains SET rpc_urls = ARRAY[rpc_url] WHERE rpc_urls IS NULL AND rpc_url IS NOT NULL;
+        ALTER TABLE burn_events ADD COLUMN IF NOT EXISTS xburn_amount NUMERIC(78, 0);
+        ALTER TABLE burn_events ADD COLUMN IF NOT EXISTS nft_id TEXT;
+        ALTER TABLE burn_positions ADD COLUMN IF NOT EXISTS mint_block_number BIGINT;
+        ALTER TABLE burn_positions ADD COLUMN IF NOT EXISTS claimed_block_number BIGINT;
+        ALTER TABLE burn_positions ADD COLUMN IF NOT EXISTS xburn_reward_projected NUMERIC(78, 0);
+        ALTER TABLE burn_events ADD COLUMN IF NOT EXISTS xburn_bonus_amount NUMERIC(78, 0);
+        ALTER TABLE burn_positions ADD COLUMN IF NOT EXISTS claimed_xburn_bonus NUMERIC(78, 0);
+        ALTER TABLE burn_events ADD COLUMN IF NOT EXISTS log_index INTEGER;
+        -- Rows indexed before finality tracking were all behind the confirmation depth
+        ALTER TABLE burn_events ADD COLUMN IF NOT EXISTS finality VARCHAR(10) NOT NULL DEFAULT 'final';
+        ALTER TABLE burn_events ALTER COLUMN finality SET DEFAULT 'pending';
+        ALTER TABLE burn_positions ADD COLUMN IF NOT EXISTS finality VARCHAR(10) NOT NULL DEFAULT 'final';
+        ALTER TABLE burn_positions ALTER COLUMN finality SET DEFAULT 'pending';
+        ALTER TABLE burn_events ADD COLUMN IF NOT EXISTS burn_source VARCHAR(20);
+        ALTER TABLE burn_events ADD COLUMN IF NOT EXISTS burn_caller TEXT;
+        ALTER TABLE burn_events ADD COLUMN IF NOT EXISTS linked_event_id INTEGER;
+        ALTER TABLE burn_events ADD COLUMN IF NOT EXISTS xen_amount_reported NUMERIC(78, 0);
+        ALTER TABLE burn_events ADD COLUMN IF NOT EXISTS split_mismatch BOOLEAN NOT NULL DEFAULT false;
+      `);
+      
+      // Add additional tables if needed for this implementation
+      await this.db.query(INDEXER_TABLES_SQL);
+      
+      await this.migrateLegacyBaseChainId();
+      await this.migrateEventIdentity();
+      await this.classifyLegacyBurns();
+      await this.backfillBurnCallers();
+      await this.seedBlockCoverage();
+      
+      console.log('Database tables initialized');
+    } catch (error) {
+      console.error('Error initializing tables:', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }
+  
+  /**
+   * Move Base from the placeholder chain ID the original schema seed used to its real chain ID.
+   * If Base was already indexed under its real ID, the rows stored under the placeholder are dropped.
+   */
+  private async migrateLegacyBaseChainId(): Promise<void> {
+    const legacy = await this.db.query(
+      `SELECT 1 FROM chains WHERE chain_id = $1 AND chain_name = $2`,
+      [LEGACY_BASE_CHAIN_ID, BASE_CHAIN.name]
+    );
+    
+    if (legacy.rows.length === 0) {
+      return;
+    }
+    
+    console.log(`Moving ${BASE_CHAIN.name} from chain ID ${LEGACY_BASE_CHAIN_ID} to ${BASE_CHAIN.chainId}`);
+    
+    const client = await this.db.connect();
+    
+    try {
+      await client.query('BEGIN');
+      
+      await client.query(
+        `INSERT INTO chains 
+         (chain_id, chain_name, rpc_url, rpc_urls, 
+          xen_contract_address, xburn_minter_contract_address, xburn_nft_contract_address, 
+          last_indexed_block, blocks_per_batch, created_at, updated_at)
+         SELECT $2, chain_name, rpc_url, rpc_urls, 
+           xen_contract_address, xburn_minter_contract_address, xburn_nft_contract_address, 
+           last_indexed_block, blocks_per_batch, created_at, NOW()
+         FROM chains WHERE chain_id = $1
+         ON CONFLICT (chain_id) DO NOTHING`,
+        [LEGACY_BASE_CHAIN_ID, BASE_CHAIN.chainId]
+      );
+      
+      const indexed = await client.query(
+        `SELECT EXISTS (SELECT 1 FROM burn_events WHERE chain_id = $1) AS exists`,
+        [BASE_CHAIN.chainId]
+      );
+      
+      for (const table of CHAIN_SCOPED_TABLES) {
+        if (indexed.rows[0].exists) {
+          await client.query(`DELETE FROM ${table} WHERE chain_id = $1`, [LEGACY_BASE_CHAIN_ID]);
+        } else {
+          await client.query(`UPDATE ${table} SET chain_id = $2 WHERE chain_id = $1`, [LEGACY_BASE_CHAIN_ID, BASE_CHAIN.chainId]);
+        }
+      }
+      
+      // Per-chain metrics are recomputed under the new ID on startup
+      await client.query(`DELETE FROM analytics WHERE metric_name LIKE $1`, [`%\\_${LEGACY_BASE_CHAIN_ID}`]);
+      await client.query(`DELETE FROM chains WHERE chain_id = $1`, [LEGACY_BASE_CHAIN_ID]);
+      
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+  
+  /**
+   * Give chains indexed before coverage tracking one coverage range, from their first event
+   * (or configured start block) up to their checkpoint, assuming the old listener scanned it in order
+   */
+  private async seedBlockCoverage(): Promise<void> {
+    const result = await this.db.query(`
+      SELECT c.chain_id, c.last_indexed_block, MIN(e.block_number) AS first_event_block
+      FROM chains c
+      LEFT JOIN burn_events e ON e.chain_id = c.chain_id
+      WHERE NOT EXISTS (SELECT 1 FROM block_coverage b WHERE b.chain_id = c.chain_id)
+      GROUP BY c.chain_id, c.last_indexed_block
+    `);
+    
+    for (const row of result.rows) {
+      const lastIndexedBlock = Number(row.last_indexed_block);
+      const configured = findRegisteredChain(row.chain_id);
+      const candidates = [
+        configured ? configured.startBlock : null,
+        row.first_event_block !== null ? Number(row.first_event_block) : null
+      ].filter((block): block is number => block !== null);
+      
+      if (candidates.length === 0) {
+        continue;
+      }
+      
+      const fromBlock = Math.min(...candidates);
+      if (fromBlock >= lastIndexedBlock) {
+        continue;
+      }
+      
+      await this.db.query(
+        `INSERT INTO block_coverage (chain_id, from_block, to_block, scanned_at) VALUES ($1, $2, $3, NOW())`,
+        [row.chain_id, fromBlock, lastIndexedBlock]
+      );
+      console.log(`Seeded block coverage for chain ${row.chain_id}: blocks ${fromBlock} to ${lastIndexedBlock}`);
+    }
+  }
+  
+  /**
+   * Switch burn_events identity from (transaction_hash, event_type) to (chain_id, transaction_hash, log_index).
+   * Rows stored without a log index cannot be told apart, so each affected chain is rolled back to the block
+   * before its first such row and those blocks are indexed again.
+   */
+  private async migrateEventIdentity(): Promise<void> {
+    const client = await this.db.connect();
+    
+    try {
+      await client.query('BEGIN');
+      
+      await client.query(`
+        CREATE TEMP TABLE legacy_event_resume ON COMMIT DROP AS
+        SELECT chain_id, MIN(block_number) - 1 AS resume_block
+        FROM burn_events
+        WHERE log_index IS NULL
+        GROUP BY chain_id
+      `);
+      
+      const legacy = await client.query(`SELECT chain_id, resume_block FROM legacy_event_resume`);
+      
+      for (const row of legacy.rows) {
+        console.log(`Re-indexing chain ${row.chain_id} from block ${Number(row.resume_block) + 1} to store log indexes`);
+      }
+      
+      await client.query(`
+        DELETE FROM burn_positions p
+        USING legacy_event_resume l
+        WHERE p.chain_id = l.chain_id AND p.mint_block_number > l.resume_block;
+        
+        UPDATE burn_positions p
+        SET status = 'locked',
+            claimed_transaction_hash = NULL,
+            claimed_block_timestamp = NULL,
+            claimed_block_number = NULL,
+            claimed_xburn_amount = NULL,
+            claimed_xburn_bonus = NULL,
+            updated_at = NOW()
+        FROM legacy_event_resume l
+        WHERE p.chain_id = l.chain_id AND p.claimed_block_number > l.resume_block;
+        
+        DELETE FROM burn_events e
+        USING legacy_event_resume l
+        WHERE e.chain_id = l.chain_id AND e.block_number > l.resume_block;
         
-        CREATE TABLE IF NOT EXISTS block_gaps (
-          chain_id INTEGER NOT NULL,
-          start_block BIGINT NOT NULL,
-          end_block BIGINT NOT NULL,
-          gap_size INTEGER NOT NULL,
-          detected_at TIMESTAMP NOT NULL,
-          processed BOOLEAN DEFAULT false,
-          PRIMARY KEY (chain_id, start_block)
-        );
+        DELETE FROM indexed_blocks b
+        USING legacy_event_resume l
+        WHERE b.chain_id = l.chain_id AND b.block_number > l.resume_block;
         
-        CREATE TABLE IF NOT EXISTS validation_stats (
-          id SERIAL PRIMARY KEY,
-          chain_id INTEGER NOT NULL,
-          validation_type VARCHAR(20) NOT NULL,
-          status VARCHAR(20) NOT NULL,
-          details TEXT,
-          validated_at TIMESTAMP NOT NULL
-        );
+        UPDATE chains c
+        SET last_indexed_block = LEAST(c.last_indexed_block, l.resume_block), updated_at = NOW()
+        FROM legacy_event_resume l
+        WHERE c.chain_id = l.chain_id;
         
-        CREATE TABLE IF NOT EXISTS data_integrity (
-          id SERIAL PRIMARY KEY,
-          chain_id INTEGER NOT NULL,
-          hash_value TEXT NOT NULL,
-          created_at TIMESTAMP NOT NULL
-        );
+        ALTER TABLE burn_events ALTER COLUMN log_index SET NOT NULL;
+        ALTER TABLE burn_events DROP CONSTRAINT IF EXISTS burn_events_transaction_hash_event_type_key;
+        CREATE UNIQUE INDEX IF NOT EXISTS burn_events_chain_id_transaction_hash_log_index_key
+          ON burn_events(chain_id, transaction_hash, log_index);
       `);
       
-      console.log('Database tables initialized');
+      await client.query('COMMIT');
     } catch (error) {
-      console.error('Error initializing tables:', error instanceof Error ? error.message : 'Unknown error');
+      await client.query('ROLLBACK');
       throw error;
+    } finally {
+      client.release();
+    }
+  }
+  
+  /**
+   * Link the XEN Transfers of XBurn burns indexed before burns were classified to their XENBurned events.
+   * Other legacy burns stay unclassified until their blocks are reindexed.
+   */
+  private async classifyLegacyBurns(): Promise<void> {
+    const legacy = await this.db.query(
+      `SELECT EXISTS (SELECT 1 FROM burn_events WHERE event_type = 'XENBurned' AND burn_source IS NULL) AS exists`
+    );
+    
+    if (!legacy.rows[0].exists) {
+      return;
+    }
+    
+    console.log('Classifying XBurn burns indexed before burn sources were tracked');
+    
+    await this.db.query(`
+      UPDATE burn_events t
+      SET burn_source = 'xburn', linked_event_id = pair.xen_burned_id
+      FROM (
+        SELECT DISTINCT ON (t.id) t.id AS transfer_id, x.id AS xen_burned_id
+        FROM burn_events t
+        JOIN burn_events x
+          ON x.chain_id = t.chain_id AND x.transaction_hash = t.transaction_hash
+         AND x.event_type = 'XENBurned' AND x.user_address = t.user_address AND x.log_index > t.log_index
+        WHERE t.event_type = 'Transfer' AND t.burn_source IS NULL
+        ORDER BY t.id, x.log_index
+      ) pair
+      WHERE t.id = pair.transfer_id;
+      
+      UPDATE burn_events SET burn_source = 'xburn' WHERE event_type = 'XENBurned' AND burn_source IS NULL;
+    `);
+  }
+  
+  /**
+   * Keep the callers of burns classified before burn_callers existed, so a replay can classify them again
+   */
+  private async backfillBurnCallers(): Promise<void> {
+    const recorded = await this.db.query(`SELECT EXISTS (SELECT 1 FROM burn_callers) AS exists`);
+    
+    if (recorded.rows[0].exists) {
+      return;
+    }
+    
+    const result = await this.db.query(`
+      INSERT INTO burn_callers (chain_id, transaction_hash, caller)
+      SELECT DISTINCT ON (chain_id, transaction_hash) chain_id, transaction_hash, burn_caller
+      FROM burn_events
+      WHERE event_type = 'Transfer' AND burn_source IN ('direct', 'protocol')
+      ORDER BY chain_id, transaction_hash
+      ON CONFLICT (chain_id, transaction_hash) DO NOTHING
+    `);
+    
+    if (result.rowCount) {
+      console.log(`Recorded the callers of ${result.rowCount} burn transactions indexed before burn_callers existed`);
     }
   }
 }
@@ -153,4 +449,8 @@ const tracker = new XENBurnTracker();
 tracker.start().catch(error => {
   console.error('Fatal error:', error);
   process.exit(1);
-}); 
\ No newline at end of file
+});
+
+// Finish in-flight work before exiting on container stop or Ctrl+C
+process.on('SIGTERM', () => tracker.shutdown('SIGTERM'));
+process.on('SIGINT', () => tracker.shutdown('SIGINT')); 
\ No newline at end of file
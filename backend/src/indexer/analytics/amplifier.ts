@@ -0,0 +1,47 @@
+import { ethers } from 'ethers';
+import { FailoverProvider } from '../services/failoverProvider';
+import XENCryptoABI from '../../contracts/XENCrypto.json';
+
+const xenCryptoInterface = new ethers.Interface(XENCryptoABI);
+
+// XEN amplifier bounds: it starts at AMP_START on genesis day and loses 1 per day down to AMP_END
+export const AMP_START = 3000;
+export const AMP_END = 1;
+
+const SECONDS_IN_DAY = 24 * 60 * 60;
+
+/**
+ * Number of full days between the XEN genesis and a timestamp
+ * @param genesisTs XEN contract genesis timestamp, in seconds
+ * @param timestamp Timestamp, in seconds
+ * @returns Full days since genesis; 0 before genesis
+ */
+export function daysSinceGenesis(genesisTs: number, timestamp: number): number {
+  return Math.max(Math.floor((timestamp - genesisTs) / SECONDS_IN_DAY), 0);
+}
+
+/**
+ * XEN amplifier at a timestamp, as XENCrypto._calculateRewardAmplifier computes it
+ * @param genesisTs XEN contract genesis timestamp, in seconds
+ * @param timestamp Timestamp, in seconds
+ * @returns Amplifier between AMP_START and AMP_END
+ */
+export function amplifierAt(genesisTs: number, timestamp: number): number {
+  return Math.max(AMP_START - daysSinceGenesis(genesisTs, timestamp), AMP_END);
+}
+
+/**
+ * Read the genesis timestamp of a XEN deployment
+ * @param provider Provider for the chain
+ * @param xenAddress XENCrypto contract address
+ * @returns Genesis timestamp, in seconds
+ */
+export async function fetchGenesisTs(provider: FailoverProvider, xenAddress: string): Promise<number> {
+  const data = await provider.call({
+    to: xenAddress,
+    data: xenCryptoInterface.encodeFunctionData('genesisTs')
+  });
+  
+  const [genesisTs] = xenCryptoInterface.decodeFunctionResult('genesisTs', data);
+  return Number(genesisTs);
+}
@@ -1,11 +1,16 @@
 import { Pool } from 'pg';
-import { format } from 'date-fns';
+import { JobScheduler } from '../services/jobScheduler';
+import { BURN_SOURCES } from '../processors/eventProcessor';
+import { amplifierAt, daysSinceGenesis } from './amplifier';
+import { rebuildRollups } from './rollups';
 
 /**
  * AnalyticsEngine handles generating pre-computed analytics for the dashboard
  */
 export class AnalyticsEngine {
   private db: Pool;
+  private state: 'stopped' | 'running' | 'paused' = 'stopped';
+  private activeRefreshes: Set<Promise<void>> = new Set();
   
   /**
    * Create a new AnalyticsEngine instance
@@ -16,50 +21,138 @@ export class AnalyticsEngine {
   }
   
   /**
-   * Schedule all analytics refreshes
+   * Start the engine and run every refresh once; later refreshes run as scheduled jobs
    */
-  scheduleRefreshes(): void {
-    console.log('Scheduling analytics refreshes...');
+  start(): void {
+    if (this.state !== 'stopped') {
+      return;
+    }
+    
+    this.state = 'running';
     
     // Run immediately on startup
-    this.refreshHourlyStats();
-    this.refreshDailyStats();
-    this.calculateAmplifierValue();
+    this.runRefresh(() => this.refreshHourlyStats());
+    this.runRefresh(() => this.refreshDailyStats());
+    this.runRefresh(() => this.calculateAmplifierValue());
+  }
+  
+  /**
+   * Register the analytics refreshes with the job scheduler
+   * @param scheduler Job scheduler
+   */
+  registerJobs(scheduler: JobScheduler): void {
+    scheduler.register({
+      name: 'analytics-hourly',
+      schedule: '0 * * * *',
+      description: 'Refresh hourly burn statistics',
+      run: () => this.refreshHourlyStats()
+    });
     
-    // Schedule hourly refresh
-    setInterval(() => this.refreshHourlyStats(), 60 * 60 * 1000); // Every hour
+    scheduler.register({
+      name: 'analytics-daily',
+      schedule: '0 0 * * *',
+      description: 'Refresh daily burn statistics and amplifier values',
+      run: async () => {
+        await this.refreshDailyStats();
+        await this.calculateAmplifierValue();
+      }
+    });
     
-    // Schedule daily refresh at midnight
-    this.scheduleDailyRefresh();
+    scheduler.register({
+      name: 'rollups-rebuild',
+      schedule: '0 4 * * 0',
+      description: 'Rebuild the hourly and daily burn rollups from all indexed events',
+      run: async () => {
+        const chains = await this.db.query('SELECT chain_id FROM chains ORDER BY chain_id');
+        let buckets = 0;
+        
+        for (const row of chains.rows) {
+          buckets += await rebuildRollups(this.db, row.chain_id);
+        }
+        
+        return `Rebuilt ${buckets} daily buckets on ${chains.rows.length} chains`;
+      }
+    });
+  }
+  
+  /**
+   * Build the rollups of chains that have events but no rollups yet, such as chains indexed
+   * before rollups existed. Runs before the listeners start; batches keep them up to date from then on.
+   */
+  async backfillRollups(): Promise<void> {
+    const missing = await this.db.query(`
+      SELECT c.chain_id
+      FROM chains c
+      WHERE EXISTS (SELECT 1 FROM burn_events e WHERE e.chain_id = c.chain_id)
+        AND NOT EXISTS (SELECT 1 FROM burn_rollups_daily r WHERE r.chain_id = c.chain_id)
+    `);
     
-    console.log('Analytics refreshes scheduled');
+    for (const row of missing.rows) {
+      try {
+        const buckets = await rebuildRollups(this.db, row.chain_id);
+        console.log(`Backfilled burn rollups for chain ${row.chain_id}: ${buckets} daily buckets`);
+      } catch (error) {
+        console.error(`Error backfilling burn rollups for chain ${row.chain_id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
   }
   
   /**
-   * Schedule the daily refresh to run at midnight
+   * Wait for startup refreshes to finish
    */
-  private scheduleDailyRefresh(): void {
-    const now = new Date();
-    const nextMidnight = new Date(
-      now.getFullYear(),
-      now.getMonth(),
-      now.getDate() + 1,
-      0, 0, 0
-    );
+  async stop(): Promise<void> {
+    if (this.state === 'stopped') {
+      return;
+    }
     
-    const timeUntilMidnight = nextMidnight.getTime() - now.getTime();
+    this.state = 'stopped';
     
-    setTimeout(() => {
-      this.refreshDailyStats();
-      this.calculateAmplifierValue();
-      this.scheduleDailyRefresh(); // Schedule next day
-    }, timeUntilMidnight);
+    await Promise.allSettled([...this.activeRefreshes]);
+    console.log('Analytics engine stopped');
+  }
+  
+  /**
+   * Skip scheduled refreshes until resumed and wait for running ones to finish
+   */
+  async pause(): Promise<void> {
+    if (this.state !== 'running') {
+      return;
+    }
     
-    console.log(`Scheduled daily refresh at ${nextMidnight.toISOString()}`);
+    this.state = 'paused';
+    await Promise.allSettled([...this.activeRefreshes]);
+    console.log('Analytics engine paused');
   }
   
   /**
-   * Refresh daily analytics
+   * Resume scheduled refreshes
+   */
+  resume(): void {
+    if (this.state !== 'paused') {
+      return;
+    }
+    
+    this.state = 'running';
+    console.log('Analytics engine resumed');
+  }
+  
+  /**
+   * Run a scheduled refresh unless the engine is paused or stopped
+   * @param refresh Refresh to run
+   */
+  private runRefresh(refresh: () => Promise<void>): void {
+    if (this.state !== 'running') {
+      return;
+    }
+    
+    const work = refresh();
+    this.activeRefreshes.add(work);
+    const done = () => { this.activeRefreshes.delete(work); };
+    work.then(done, done);
+  }
+  
+  /**
+   * Refresh daily analytics. Each metric is upserted on its own, so no transaction stays open across the scans.
    */
   async refreshDailyStats(): Promise<void> {
     console.log('Refreshing daily stats...');
@@ -67,58 +160,81 @@ export class AnalyticsEngine {
     const client = await this.db.connect();
     
     try {
-      await client.query('BEGIN');
-      
-      // Get active chains
+      // Get active chains; null computes the metric across all chains under the _all suffix
       const chainsResult = await client.query('SELECT chain_id FROM chains');
+      const chainIds: (number | null)[] = [...chainsResult.rows.map(row => row.chain_id), null];
       
-      for (const row of chainsResult.rows) {
-        const chainId = row.chain_id;
-        
-        // 1. Compute daily burn totals
+      // Running totals only count final rows; today's total and the hourly metrics include pending activity
+      for (const chainId of chainIds) {
+        // 1. Read today's burn total from the daily rollup; buckets are UTC days
         await client.query(`
           INSERT INTO analytics 
           (metric_name, metric_value, last_updated)
           SELECT 
-            'daily_burn_total_' || $1, 
-            COALESCE(SUM(COALESCE(xen_amount_direct, 0) + COALESCE(xen_amount_accumulated, 0)), 0),
+            'daily_burn_total_' || COALESCE($1::integer::text, 'all'), 
+            COALESCE(SUM(burn_volume), 0),
             NOW()
-          FROM burn_events
-          WHERE chain_id = $1
-            AND block_timestamp >= CURRENT_DATE
-            AND block_timestamp < CURRENT_DATE + INTERVAL '1 day'
+          FROM burn_rollups_daily
+          WHERE ($1::integer IS NULL OR chain_id = $1::integer)
+            AND event_type = 'Transfer'
+            AND bucket = date_trunc('day', NOW() AT TIME ZONE 'UTC')
           ON CONFLICT (metric_name)
           DO UPDATE SET
             metric_value = EXCLUDED.metric_value,
             last_updated = EXCLUDED.last_updated
         `, [chainId]);
         
-        // 2. Compute total burn amount
+        // 2. Compute total burn amount; every burn, XBurn or not, is one XEN Transfer to address(0)
         await client.query(`
           INSERT INTO analytics 
           (metric_name, metric_value, last_updated)
           SELECT 
-            'total_burn_' || $1, 
-            COALESCE(SUM(COALESCE(xen_amount_direct, 0) + COALESCE(xen_amount_accumulated, 0)), 0),
+            'total_burn_' || COALESCE($1::integer::text, 'all'), 
+            COALESCE(SUM(xen_amount_direct), 0),
             NOW()
           FROM burn_events
-          WHERE chain_id = $1
+          WHERE ($1::integer IS NULL OR chain_id = $1::integer)
+            AND event_type = 'Transfer'
+            AND finality = 'final'
           ON CONFLICT (metric_name)
           DO UPDATE SET
             metric_value = EXCLUDED.metric_value,
             last_updated = EXCLUDED.last_updated
         `, [chainId]);
         
+        // 2b. Split the total burn amount by burn source
+        for (const source of BURN_SOURCES) {
+          await client.query(`
+            INSERT INTO analytics 
+            (metric_name, metric_value, last_updated)
+            SELECT 
+              'total_burn_' || $2::text || '_' || COALESCE($1::integer::text, 'all'), 
+              COALESCE(SUM(xen_amount_direct), 0),
+              NOW()
+            FROM burn_events
+            WHERE ($1::integer IS NULL OR chain_id = $1::integer)
+              AND event_type = 'Transfer'
+              AND burn_source = $2::text
+              AND finality = 'final'
+            ON CONFLICT (metric_name)
+            DO UPDATE SET
+              metric_value = EXCLUDED.metric_value,
+              last_updated = EXCLUDED.last_updated
+          `, [chainId, source]);
+        }
+        
         // 3. Compute unique burners
         await client.query(`
           INSERT INTO analytics 
           (metric_name, metric_value, last_updated)
           SELECT 
-            'unique_burners_' || $1, 
+            'unique_burners_' || COALESCE($1::integer::text, 'all'), 
             COUNT(DISTINCT user_address),
             NOW()
           FROM burn_events
-          WHERE chain_id = $1
+          WHERE ($1::integer IS NULL OR chain_id = $1::integer)
+            AND event_type = 'Transfer'
+            AND finality = 'final'
           ON CONFLICT (metric_name)
           DO UPDATE SET
             metric_value = EXCLUDED.metric_value,
@@ -130,12 +246,13 @@ export class AnalyticsEngine {
           INSERT INTO analytics 
           (metric_name, metric_value, last_updated)
           SELECT 
-            'active_positions_' || $1, 
+            'active_positions_' || COALESCE($1::integer::text, 'all'), 
             COUNT(*),
             NOW()
           FROM burn_positions
-          WHERE chain_id = $1
+          WHERE ($1::integer IS NULL OR chain_id = $1::integer)
             AND status = 'locked'
+            AND finality = 'final'
           ON CONFLICT (metric_name)
           DO UPDATE SET
             metric_value = EXCLUDED.metric_value,
@@ -147,13 +264,14 @@ export class AnalyticsEngine {
           INSERT INTO analytics 
           (metric_name, metric_value, last_updated)
           SELECT 
-            'claimable_positions_' || $1, 
+            'claimable_positions_' || COALESCE($1::integer::text, 'all'), 
             COUNT(*),
             NOW()
           FROM burn_positions
-          WHERE chain_id = $1
+          WHERE ($1::integer IS NULL OR chain_id = $1::integer)
             AND status = 'locked'
             AND maturity_timestamp <= NOW()
+            AND finality = 'final'
           ON CONFLICT (metric_name)
           DO UPDATE SET
             metric_value = EXCLUDED.metric_value,
@@ -171,18 +289,17 @@ export class AnalyticsEngine {
           last_updated = EXCLUDED.last_updated
       `);
       
-      await client.query('COMMIT');
       console.log('Daily stats refreshed successfully');
     } catch (error) {
-      await client.query('ROLLBACK');
       console.error(`Error refreshing daily stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
     } finally {
       client.release();
     }
   }
   
   /**
-   * Refresh hourly analytics
+   * Refresh hourly analytics from the last complete UTC hour of the hourly rollup
    */
   async refreshHourlyStats(): Promise<void> {
     console.log('Refreshing hourly stats...');
@@ -190,42 +307,41 @@ export class AnalyticsEngine {
     const client = await this.db.connect();
     
     try {
-      await client.query('BEGIN');
-      
-      // Get active chains
+      // Get active chains; null computes the metric across all chains under the _all suffix
       const chainsResult = await client.query('SELECT chain_id FROM chains');
+      const chainIds: (number | null)[] = [...chainsResult.rows.map(row => row.chain_id), null];
       
-      for (const row of chainsResult.rows) {
-        const chainId = row.chain_id;
-        
-        // 1. Compute hourly burn totals for the last 24 hours
+      for (const chainId of chainIds) {
+        // 1. Burn total of the last complete hour
         await client.query(`
           INSERT INTO analytics 
           (metric_name, metric_value, last_updated)
           SELECT 
-            'hourly_burn_total_' || $1, 
-            COALESCE(SUM(COALESCE(xen_amount_direct, 0) + COALESCE(xen_amount_accumulated, 0)), 0),
+            'hourly_burn_total_' || COALESCE($1::integer::text, 'all'), 
+            COALESCE(SUM(burn_volume), 0),
             NOW()
-          FROM burn_events
-          WHERE chain_id = $1
-            AND block_timestamp >= NOW() - INTERVAL '1 hour'
+          FROM burn_rollups_hourly
+          WHERE ($1::integer IS NULL OR chain_id = $1::integer)
+            AND event_type = 'Transfer'
+            AND bucket = date_trunc('hour', NOW() AT TIME ZONE 'UTC') - INTERVAL '1 hour'
           ON CONFLICT (metric_name)
           DO UPDATE SET
             metric_value = EXCLUDED.metric_value,
             last_updated = EXCLUDED.last_updated
         `, [chainId]);
         
-        // 2. Compute hourly transaction count
+        // 2. Burn transactions of the last complete hour
         await client.query(`
           INSERT INTO analytics 
           (metric_name, metric_value, last_updated)
           SELECT 
-            'hourly_tx_count_' || $1, 
-            COUNT(*),
+            'hourly_tx_count_' || COALESCE($1::integer::text, 'all'), 
+            COALESCE(SUM(tx_count), 0),
             NOW()
-          FROM burn_events
-          WHERE chain_id = $1
-            AND block_timestamp >= NOW() - INTERVAL '1 hour'
+          FROM burn_rollups_hourly
+          WHERE ($1::integer IS NULL OR chain_id = $1::integer)
+            AND event_type = 'Transfer'
+            AND bucket = date_trunc('hour', NOW() AT TIME ZONE 'UTC') - INTERVAL '1 hour'
           ON CONFLICT (metric_name)
           DO UPDATE SET
             metric_value = EXCLUDED.metric_value,
@@ -243,18 +359,17 @@ export class AnalyticsEngine {
           last_updated = EXCLUDED.last_updated
       `);
       
-      await client.query('COMMIT');
       console.log('Hourly stats refreshed successfully');
     } catch (error) {
-      await client.query('ROLLBACK');
       console.error(`Error refreshing hourly stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
     } finally {
       client.release();
     }
   }
   
   /**
-   * Calculate the current amplifier value and store it
+   * Calculate the current XEN amplifier of every chain from its contract genesis and store it
    */
   async calculateAmplifierValue(): Promise<void> {
     console.log('Calculating amplifier values...');
@@ -264,18 +379,21 @@ export class AnalyticsEngine {
     try {
       // Get active chains
       const chainsResult = await client.query(`
-        SELECT chain_id, created_at FROM chains
+        SELECT chain_id, xen_genesis_ts FROM chains
       `);
       
       for (const chain of chainsResult.rows) {
-        const launchTimestamp = new Date(chain.created_at).getTime() / 1000;
-        const currentTimestamp = Math.floor(Date.now() / 1000);
+        // The genesis is read from the XEN contract when the chain's listener starts
+        if (chain.xen_genesis_ts === null) {
+          console.log(`Skipping amplifier for chain ${chain.chain_id}: XEN genesis not known yet`);
+          continue;
+        }
         
-        // Calculate days active
-        const daysActive = Math.floor((currentTimestamp - launchTimestamp) / (24 * 60 * 60));
+        const genesisTs = Number(chain.xen_genesis_ts);
+        const currentTimestamp = Math.floor(Date.now() / 1000);
         
-        // Calculate amplifier (based on XEN tokenomics - AMP_START = 3000, AMP_END = 1)
-        const amplifier = daysActive >= 3000 ? 1 : 3000 - daysActive;
+        const daysActive = daysSinceGenesis(genesisTs, currentTimestamp);
+        const amplifier = amplifierAt(genesisTs, currentTimestamp);
         
         // Store the calculated value
         await client.query(`
@@ -294,6 +412,7 @@ export class AnalyticsEngine {
       console.log('Amplifier values calculated successfully');
     } catch (error) {
       console.error(`Error calculating amplifier values: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
     } finally {
       client.release();
     }
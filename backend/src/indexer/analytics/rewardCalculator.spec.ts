@@ -0,0 +1,24 @@
+import { DEFAULT_REWARD_TERMS, projectReward } from './rewardCalculator';
+import { AMP_START } from './amplifier';
+
+const XEN = BigInt(10) ** BigInt(18);
+
+describe('rewardCalculator', () => {
+  describe('projectReward', () => {
+    it('mints one XBURN per xenPerXburn XEN and scales the bonus with term and amplifier', () => {
+      const projection = projectReward({ xenAmount: BigInt(1000000) * XEN, termDays: 365, amplifier: AMP_START });
+      
+      expect(projection.baseMint).toBe(XEN);
+      expect(projection.bonus).toBe(XEN / BigInt(10));
+      expect(projection.total).toBe(XEN + XEN / BigInt(10));
+    });
+    
+    it('caps the term bonus at maxTermDays', () => {
+      const full = projectReward({ xenAmount: BigInt(1000000) * XEN, termDays: DEFAULT_REWARD_TERMS.maxTermDays, amplifier: AMP_START / 2 });
+      const longer = projectReward({ xenAmount: BigInt(1000000) * XEN, termDays: DEFAULT_REWARD_TERMS.maxTermDays * 2, amplifier: AMP_START / 2 });
+      
+      expect(full.bonus).toBe(XEN / BigInt(2));
+      expect(longer).toEqual(full);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { AMP_START, amplifierAt } from './amplifier';
+
+const SECONDS_IN_DAY = 24 * 60 * 60;
+
+/**
+ * Reward terms of an XBurnMinter deployment
+ */
+export interface RewardTerms {
+  xenPerXburn: number; // XEN burned per XBURN of base mint
+  maxTermDays: number; // Lock term that earns the full term bonus
+  maxBonusBps: number; // Bonus on the base mint at the full term and AMP_START, in basis points
+}
+
+// Whether projectReward has been checked against the XBurnMinter source; until then every projection is an estimate
+export const REWARD_FORMULA_VERIFIED = false;
+
+// Terms of the XBurnMinter deployments we index
+export const DEFAULT_REWARD_TERMS: RewardTerms = {
+  xenPerXburn: 1000000,
+  maxTermDays: 3650,
+  maxBonusBps: 10000
+};
+
+/**
+ * Inputs of a reward projection
+ */
+export interface RewardInput {
+  xenAmount: bigint; // XEN burned into the lock, in wei
+  termDays: number;
+  amplifier: number; // Amplifier snapshot taken at the burn
+}
+
+/**
+ * Projected XBURN paid by a lock at maturity, in wei
+ */
+export interface RewardProjection {
+  baseMint: bigint; // Paid on claim and on an emergency end
+  bonus: bigint; // Only paid when the lock is claimed at maturity
+  total: bigint;
+}
+
+/**
+ * Project the XBURN a lock pays at maturity. The base mint is proportional to the XEN burned; the bonus
+ * on top of it grows linearly with the lock term and with the amplifier snapshot.
+ * This is an estimate, not the XBurnMinter formula, whose source is not part of this repository.
+ * Indexed positions take their rewards from getLockDetails instead.
+ * @param input XEN amount, term and amplifier of the lock
+ * @param terms Reward terms of the deployment
+ * @returns Base mint, bonus and total reward
+ */
+export function projectReward(input: RewardInput, terms: RewardTerms = DEFAULT_REWARD_TERMS): RewardProjection {
+  const baseMint = input.xenAmount / BigInt(terms.xenPerXburn);
+  
+  const termDays = Math.min(input.termDays, terms.maxTermDays);
+  const bonus = baseMint * BigInt(termDays) * BigInt(input.amplifier) * BigInt(terms.maxBonusBps) /
+    (BigInt(terms.maxTermDays) * BigInt(AMP_START) * BigInt(10000));
+  
+  return { baseMint, bonus, total: baseMint + bonus };
+}
+
+/**
+ * Outcome of burning at a given time
+ */
+export interface BurnScenario {
+  waitDays: number;
+  burnDate: Date;
+  maturityDate: Date;
+  amplifier: number;
+  reward: RewardProjection;
+  change: bigint; // Reward difference from burning now
+}
+
+/**
+ * Simulate a burn now and after waiting some days, as the amplifier decays
+ * @param xenAmount XEN to burn, in wei
+ * @param termDays Lock term
+ * @param genesisTs XEN contract genesis timestamp, in seconds
+ * @param now Current timestamp, in seconds
+ * @param waitDays Days to wait in each alternative scenario
+ * @param terms Reward terms of the deployment
+ * @returns Scenario for burning now, followed by one scenario per wait
+ */
+export function simulateBurn(
+  xenAmount: bigint,
+  termDays: number,
+  genesisTs: number,
+  now: number,
+  waitDays: number[],
+  terms: RewardTerms = DEFAULT_REWARD_TERMS
+): BurnScenario[] {
+  const scenario = (wait: number, baseline: bigint | null): BurnScenario => {
+    const burnTs = now + wait * SECONDS_IN_DAY;
+    const amplifier = amplifierAt(genesisTs, burnTs);
+    const reward = projectReward({ xenAmount, termDays, amplifier }, terms);
+    
+    return {
+      waitDays: wait,
+      burnDate: new Date(burnTs * 1000),
+      maturityDate: new Date((burnTs + termDays * SECONDS_IN_DAY) * 1000),
+      amplifier,
+      reward,
+      change: baseline === null ? BigInt(0) : reward.total - baseline
+    };
+  };
+  
+  const current = scenario(0, null);
+  return [current, ...waitDays.map(wait => scenario(wait, current.reward.total))];
+}
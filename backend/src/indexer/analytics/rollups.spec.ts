@@ -0,0 +1,169 @@
+import { Pool, PoolClient } from 'pg';
+import { rebuildChainRollups, rebuildRollups, refreshRollups } from './rollups';
+import { createTestDb, insertChain } from '../../testing/testDb';
+
+const CHAIN_ID = 31337;
+const OTHER_CHAIN_ID = 31338;
+
+/**
+ * Event row to insert into burn_events
+ */
+interface TestEvent {
+  chainId?: number;
+  blockNumber: number;
+  timestamp: string;
+  eventType: string;
+  user?: string;
+  direct?: number;
+  accumulated?: number;
+  nftId?: string;
+  xburnAmount?: number;
+}
+
+/**
+ * Insert an event into burn_events
+ */
+async function insertEvent(pool: Pool, event: TestEvent): Promise<void> {
+  await pool.query(
+    `INSERT INTO burn_events
+     (chain_id, transaction_hash, block_number, block_timestamp, user_address, xen_amount_direct,
+      xen_amount_accumulated, nft_id, xburn_amount, contract_address, event_type, log_index)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, '0xcontract', $10, 0)`,
+    [
+      event.chainId ?? CHAIN_ID,
+      `0xtx${event.blockNumber}`,
+      event.blockNumber,
+      event.timestamp,
+      event.user ?? '0xuser',
+      event.direct ?? null,
+      event.accumulated ?? null,
+      event.nftId ?? null,
+      event.xburnAmount ?? null,
+      event.eventType
+    ]
+  );
+}
+
+describe('rollups', () => {
+  let pool: Pool;
+  
+  beforeEach(async () => {
+    pool = createTestDb().pool;
+    await insertChain(pool, CHAIN_ID);
+    await insertChain(pool, OTHER_CHAIN_ID);
+  });
+  
+  /**
+   * Run a function with a client inside a committed transaction
+   */
+  async function inTransaction(fn: (client: PoolClient) => Promise<void>): Promise<void> {
+    const client = await pool.connect();
+    
+    try {
+      await client.query('BEGIN');
+      await fn(client);
+      await client.query('COMMIT');
+    } finally {
+      client.release();
+    }
+  }
+  
+  /**
+   * Rollup rows of a table as [bucket, event type, burn volume, tx count]
+   */
+  async function rollupRows(table: string, chainId = CHAIN_ID): Promise<[string, string, number, number][]> {
+    const result = await pool.query(
+      `SELECT bucket, event_type, burn_volume, tx_count FROM ${table} WHERE chain_id = $1 ORDER BY bucket, event_type`,
+      [chainId]
+    );
+    return result.rows.map(row => [new Date(row.bucket).toISOString(), row.event_type, Number(row.burn_volume), Number(row.tx_count)]);
+  }
+  
+  describe('rebuildChainRollups', () => {
+    it('aggregates a chain\'s events into hourly and daily buckets', async () => {
+      await insertEvent(pool, { blockNumber: 100, timestamp: '2025-01-01 10:05:00', eventType: 'Transfer', direct: 8, user: '0xa' });
+      await insertEvent(pool, { blockNumber: 101, timestamp: '2025-01-01 10:55:00', eventType: 'Transfer', direct: 4, accumulated: 1, user: '0xb' });
+      await insertEvent(pool, { blockNumber: 102, timestamp: '2025-01-01 12:00:00', eventType: 'Transfer', direct: 3, user: '0xa' });
+      await insertEvent(pool, { blockNumber: 103, timestamp: '2025-01-01 12:30:00', eventType: 'XENBurned', nftId: '1' });
+      await insertEvent(pool, { blockNumber: 104, timestamp: '2025-01-02 09:00:00', eventType: 'XBURNClaimed', xburnAmount: 6 });
+      await insertEvent(pool, { chainId: OTHER_CHAIN_ID, blockNumber: 100, timestamp: '2025-01-01 10:00:00', eventType: 'Transfer', direct: 50 });
+      
+      let buckets = 0;
+      await inTransaction(async client => {
+        buckets = await rebuildChainRollups(client, CHAIN_ID);
+      });
+      
+      expect(buckets).toBe(3);
+      expect(await rollupRows('burn_rollups_hourly')).toEqual([
+        ['2025-01-01T10:00:00.000Z', 'Transfer', 13, 2],
+        ['2025-01-01T12:00:00.000Z', 'Transfer', 3, 1],
+        ['2025-01-01T12:00:00.000Z', 'XENBurned', 0, 1],
+        ['2025-01-02T09:00:00.000Z', 'XBURNClaimed', 0, 1]
+      ]);
+      
+      const daily = await pool.query(
+        `SELECT event_type, unique_burners, positions_opened, positions_claimed, xburn_claimed
+         FROM burn_rollups_daily WHERE chain_id = $1`,
+        [CHAIN_ID]
+      );
+      const dailyRow = (eventType: string) => daily.rows.find(row => row.event_type === eventType);
+      
+      // pg-mem ignores FILTER clauses, so each count is only checked on the event type it is about
+      expect(Number(dailyRow('Transfer').unique_burners)).toBe(2);
+      expect(Number(dailyRow('XENBurned').positions_opened)).toBe(1);
+      expect(Number(dailyRow('XBURNClaimed').positions_claimed)).toBe(1);
+      expect(Number(dailyRow('XBURNClaimed').xburn_claimed)).toBe(6);
+      
+      expect(await rollupRows('burn_rollups_daily', OTHER_CHAIN_ID)).toEqual([]);
+    });
+    
+    it('replaces rollups left by earlier events', async () => {
+      await insertEvent(pool, { blockNumber: 100, timestamp: '2025-01-01 10:00:00', eventType: 'Transfer', direct: 5 });
+      await rebuildRollups(pool, CHAIN_ID);
+      
+      await pool.query(`DELETE FROM burn_events WHERE chain_id = $1`, [CHAIN_ID]);
+      await insertEvent(pool, { blockNumber: 200, timestamp: '2025-01-03 08:00:00', eventType: 'Transfer', direct: 7 });
+      
+      expect(await rebuildRollups(pool, CHAIN_ID)).toBe(1);
+      expect(await rollupRows('burn_rollups_daily')).toEqual([['2025-01-03T00:00:00.000Z', 'Transfer', 7, 1]]);
+    });
+  });
+  
+  describe('refreshRollups', () => {
+    beforeEach(async () => {
+      await insertEvent(pool, { blockNumber: 100, timestamp: '2025-01-01 10:00:00', eventType: 'Transfer', direct: 5 });
+      await insertEvent(pool, { blockNumber: 101, timestamp: '2025-01-01 11:00:00', eventType: 'Transfer', direct: 7 });
+      await rebuildRollups(pool, CHAIN_ID);
+    });
+    
+    it('recomputes the buckets a span touches and leaves the others alone', async () => {
+      await insertEvent(pool, { blockNumber: 102, timestamp: '2025-01-01 11:30:00', eventType: 'Transfer', direct: 2 });
+      // Outside the refreshed span, so its bucket keeps the stale total
+      await pool.query(`UPDATE burn_events SET xen_amount_direct = 50 WHERE chain_id = $1 AND block_number = 100`, [CHAIN_ID]);
+      
+      await inTransaction(client => refreshRollups(client, CHAIN_ID, {
+        from: new Date('2025-01-01T11:30:00Z'),
+        to: new Date('2025-01-01T11:30:00Z')
+      }));
+      
+      expect(await rollupRows('burn_rollups_hourly')).toEqual([
+        ['2025-01-01T10:00:00.000Z', 'Transfer', 5, 1],
+        ['2025-01-01T11:00:00.000Z', 'Transfer', 9, 2]
+      ]);
+      // The daily bucket covers the whole day, so it picks up both changes
+      expect(await rollupRows('burn_rollups_daily')).toEqual([['2025-01-01T00:00:00.000Z', 'Transfer', 59, 3]]);
+    });
+    
+    it('removes buckets left without events', async () => {
+      await pool.query(`DELETE FROM burn_events WHERE chain_id = $1 AND block_number = 101`, [CHAIN_ID]);
+      
+      await inTransaction(client => refreshRollups(client, CHAIN_ID, {
+        from: new Date('2025-01-01T11:00:00Z'),
+        to: new Date('2025-01-01T11:00:00Z')
+      }));
+      
+      expect(await rollupRows('burn_rollups_hourly')).toEqual([['2025-01-01T10:00:00.000Z', 'Transfer', 5, 1]]);
+      expect(await rollupRows('burn_rollups_daily')).toEqual([['2025-01-01T00:00:00.000Z', 'Transfer', 5, 1]]);
+    });
+  });
+});
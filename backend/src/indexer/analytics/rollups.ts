@@ -0,0 +1,143 @@
+import { Pool, PoolClient } from 'pg';
+
+/**
+ * Width of a rollup bucket
+ */
+export type RollupGranularity = 'hour' | 'day';
+
+export const ROLLUP_TABLES: Record<RollupGranularity, string> = {
+  hour: 'burn_rollups_hourly',
+  day: 'burn_rollups_daily'
+};
+
+export const ROLLUP_GRANULARITIES = Object.keys(ROLLUP_TABLES) as RollupGranularity[];
+
+/**
+ * Block timestamps of the first and last event whose buckets have to be recomputed
+ */
+export interface RollupSpan {
+  from: Date;
+  to: Date;
+}
+
+// Aggregates of one (chain, bucket, event type); block timestamps are stored in UTC
+const ROLLUP_COLUMNS = `chain_id, bucket, event_type, burn_volume, tx_count, unique_burners,
+  positions_opened, positions_claimed, xburn_claimed, updated_at`;
+
+const ROLLUP_AGGREGATES = `
+  COALESCE(SUM(COALESCE(xen_amount_direct, 0) + COALESCE(xen_amount_accumulated, 0)), 0),
+  COUNT(DISTINCT transaction_hash),
+  COUNT(DISTINCT user_address),
+  COUNT(*) FILTER (WHERE event_type = 'XENBurned' AND nft_id IS NOT NULL),
+  COUNT(*) FILTER (WHERE event_type = 'XBURNClaimed'),
+  COALESCE(SUM(xburn_amount) FILTER (WHERE event_type = 'XBURNClaimed'), 0),
+  NOW()`;
+
+/**
+ * Find the time span of a chain's events in a block range
+ * @param client Database client
+ * @param chainId Chain ID
+ * @param fromBlock First block
+ * @param toBlock Last block; null for every block from fromBlock on
+ * @returns Span of the events, or null if the range holds none
+ */
+export async function eventSpan(client: PoolClient, chainId: number, fromBlock: number, toBlock: number | null): Promise<RollupSpan | null> {
+  const result = await client.query(
+    `SELECT MIN(block_timestamp) AS from_ts, MAX(block_timestamp) AS to_ts
+     FROM burn_events
+     WHERE chain_id = $1 AND block_number >= $2 AND ($3::bigint IS NULL OR block_number <= $3::bigint)`,
+    [chainId, fromBlock, toBlock]
+  );
+  
+  const row = result.rows[0];
+  return row.from_ts ? { from: row.from_ts, to: row.to_ts } : null;
+}
+
+/**
+ * Recompute every hourly and daily bucket a span touches from burn_events. Buckets left without
+ * events are removed, so the same call covers inserted and deleted rows.
+ * @param client Database client inside the transaction that changed the events
+ * @param chainId Chain ID
+ * @param span Time span of the changed events
+ */
+export async function refreshRollups(client: PoolClient, chainId: number, span: RollupSpan): Promise<void> {
+  for (const granularity of ROLLUP_GRANULARITIES) {
+    const table = ROLLUP_TABLES[granularity];
+    
+    await client.query(
+      `DELETE FROM ${table}
+       WHERE chain_id = $1
+         AND bucket >= date_trunc('${granularity}', $2::timestamp)
+         AND bucket <= date_trunc('${granularity}', $3::timestamp)`,
+      [chainId, span.from, span.to]
+    );
+    
+    await client.query(
+      `INSERT INTO ${table} (${ROLLUP_COLUMNS})
+       SELECT chain_id, date_trunc('${granularity}', block_timestamp), event_type, ${ROLLUP_AGGREGATES}
+       FROM burn_events
+       WHERE chain_id = $1
+         AND block_timestamp >= date_trunc('${granularity}', $2::timestamp)
+         AND block_timestamp < date_trunc('${granularity}', $3::timestamp) + INTERVAL '1 ${granularity}'
+       GROUP BY chain_id, date_trunc('${granularity}', block_timestamp), event_type`,
+      [chainId, span.from, span.to]
+    );
+  }
+}
+
+/**
+ * Replace a chain's rollups with buckets computed from all of its events
+ * @param client Database client inside an open transaction
+ * @param chainId Chain ID
+ * @returns Number of daily buckets written
+ */
+export async function rebuildChainRollups(client: PoolClient, chainId: number): Promise<number> {
+  let buckets = 0;
+  
+  for (const granularity of ROLLUP_GRANULARITIES) {
+    const table = ROLLUP_TABLES[granularity];
+    
+    await client.query(`DELETE FROM ${table} WHERE chain_id = $1`, [chainId]);
+    
+    const inserted = await client.query(
+      `INSERT INTO ${table} (${ROLLUP_COLUMNS})
+       SELECT chain_id, date_trunc('${granularity}', block_timestamp), event_type, ${ROLLUP_AGGREGATES}
+       FROM burn_events
+       WHERE chain_id = $1
+       GROUP BY chain_id, date_trunc('${granularity}', block_timestamp), event_type`,
+      [chainId]
+    );
+    
+    if (granularity === 'day') {
+      buckets = inserted.rowCount || 0;
+    }
+  }
+  
+  return buckets;
+}
+
+/**
+ * Backfill a chain's rollups from its full history in one transaction. Takes the chain's
+ * write lock, like EventProcessor.lockChain, so no batch commits halfway through.
+ * @param db Database pool
+ * @param chainId Chain ID
+ * @returns Number of daily buckets written
+ */
+export async function rebuildRollups(db: Pool, chainId: number): Promise<number> {
+  const client = await db.connect();
+  
+  try {
+    await client.query('BEGIN');
+    await client.query(`SELECT chain_id FROM chains WHERE chain_id = $1 FOR UPDATE`, [chainId]);
+    
+    const buckets = await rebuildChainRollups(client, chainId);
+    
+    await client.query('COMMIT');
+    return buckets;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -1,3 +1,8 @@
+import fs from 'fs';
+import { Pool } from 'pg';
+import { FINALITY_TAGS, FinalityTag } from '../services/finality';
+import { DEFAULT_REWARD_TERMS, RewardTerms } from '../analytics/rewardCalculator';
+
 /**
  * Configuration types and settings for supported chains
  */
@@ -5,27 +10,248 @@
 export interface ChainConfig {
   chainId: number;
   name: string;
-  rpcUrl: string;
+  rpcUrls: string[];
   xenContractAddress: string;
   xburnMinterAddress: string;
   xburnNftAddress: string;
   startBlock: number;
+  confirmations: number; // Blocks to stay behind the head before indexing
+  finalityTag: FinalityTag | null; // Block tag the checkpoint follows instead of the confirmation depth
   blocksPerBatch: number;
   enabled: boolean;
+  burnSplits?: BurnSplit[]; // Expected XBurn burn split by block height; only read from the registry
+  rewardTerms?: RewardTerms; // XBurnMinter reward terms; only read from the registry
 }
 
-// Base chain configuration - will be loaded from DB in production
+/**
+ * Share of an XBurn burn that is burned right away, in effect from a block onwards;
+ * the rest is accumulated by XBurnMinter
+ */
+export interface BurnSplit {
+  fromBlock: number;
+  directBps: number; // Basis points of the amount burned directly
+}
+
+// Split of XBurnMinter since deployment: 80% burned directly, 20% accumulated
+export const DEFAULT_BURN_SPLITS: BurnSplit[] = [{ fromBlock: 0, directBps: 8000 }];
+
+// Confirmation depth for chains that do not configure one
+export const DEFAULT_CONFIRMATIONS = 5;
+
+// Batch size for chains that do not configure one
+export const DEFAULT_BLOCKS_PER_BATCH = 2000;
+
+/**
+ * Parse a comma-separated list of RPC endpoint URLs
+ * @param value Comma-separated URLs
+ * @returns Array of URLs
+ */
+export function parseRpcUrls(value: string): string[] {
+  return value.split(',').map(url => url.trim()).filter(url => url.length > 0);
+}
+
+// Base chain configuration, used when no registry file is configured
 export const BASE_CHAIN: ChainConfig = {
   chainId: 8453,
   name: 'Base',
-  rpcUrl: process.env.BASE_RPC_URL || 'https://base.llamarpc.com',
+  rpcUrls: ['https://base.llamarpc.com'],
   xenContractAddress: '0xffcbF84650cE02DaFE96926B37a0ac5E34932fa5',
   xburnMinterAddress: '0xe89AFDeFeBDba033f6e750615f0A0f1A37C78c4A',
   xburnNftAddress: '0x305C60D2fEf49FADfEe67EC530DE98f67bac861D',
-  startBlock: parseInt(process.env.START_BLOCK_BASE || '7300000'),
-  blocksPerBatch: 2000,
+  startBlock: 7300000,
+  confirmations: DEFAULT_CONFIRMATIONS,
+  finalityTag: null,
+  blocksPerBatch: DEFAULT_BLOCKS_PER_BATCH,
   enabled: true
 };
 
-// Export default chains list
-export const defaultChains: ChainConfig[] = [BASE_CHAIN]; 
\ No newline at end of file
+let registry: ChainConfig[] | null = null;
+
+/**
+ * Prefix of a chain's environment variables, e.g. BASE for Base or BNB_CHAIN for BNB Chain
+ * @param name Chain name
+ * @returns Environment variable prefix
+ */
+export function chainEnvPrefix(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Validate a registry entry and fill in defaults
+ * @param entry Entry from the registry file
+ * @returns Chain configuration
+ */
+function registryEntryToConfig(entry: Partial<ChainConfig>): ChainConfig {
+  const missing = ['chainId', 'name', 'xenContractAddress', 'xburnMinterAddress', 'xburnNftAddress', 'startBlock']
+    .filter(field => entry[field] === undefined || entry[field] === null || entry[field] === '');
+  
+  if (missing.length > 0) {
+    throw new Error(`Chain registry entry ${entry.name || entry.chainId} is missing ${missing.join(', ')}`);
+  }
+  
+  if (entry.finalityTag && !FINALITY_TAGS.includes(entry.finalityTag)) {
+    throw new Error(`Chain registry entry ${entry.name} has an unknown finality tag ${entry.finalityTag}`);
+  }
+  
+  if (entry.burnSplits !== undefined && (
+    !Array.isArray(entry.burnSplits) ||
+    entry.burnSplits.some(split => !Number.isInteger(split.fromBlock) || split.fromBlock < 0 ||
+      !Number.isInteger(split.directBps) || split.directBps < 0 || split.directBps > 10000)
+  )) {
+    throw new Error(`Chain registry entry ${entry.name} has invalid burn splits; each needs a fromBlock and directBps between 0 and 10000`);
+  }
+  
+  const rewardTerms = entry.rewardTerms ? { ...DEFAULT_REWARD_TERMS, ...entry.rewardTerms } : undefined;
+  if (rewardTerms && Object.values(rewardTerms).some(value => !Number.isInteger(value) || (value as number) <= 0)) {
+    throw new Error(`Chain registry entry ${entry.name} has invalid reward terms; xenPerXburn, maxTermDays and maxBonusBps must be positive integers`);
+  }
+  
+  return {
+    chainId: Number(entry.chainId),
+    name: entry.name,
+    rpcUrls: entry.rpcUrls || [],
+    xenContractAddress: entry.xenContractAddress,
+    xburnMinterAddress: entry.xburnMinterAddress,
+    xburnNftAddress: entry.xburnNftAddress,
+    startBlock: Number(entry.startBlock),
+    confirmations: entry.confirmations !== undefined ? Number(entry.confirmations) : DEFAULT_CONFIRMATIONS,
+    finalityTag: entry.finalityTag || null,
+    blocksPerBatch: entry.blocksPerBatch !== undefined ? Number(entry.blocksPerBatch) : DEFAULT_BLOCKS_PER_BATCH,
+    enabled: entry.enabled !== false,
+    burnSplits: entry.burnSplits ? [...entry.burnSplits].sort((a, b) => a.fromBlock - b.fromBlock) : undefined,
+    rewardTerms
+  };
+}
+
+/**
+ * Apply the <PREFIX>_RPC_URLS, <PREFIX>_RPC_URL and START_BLOCK_<PREFIX> environment overrides
+ * @param config Chain configuration from the registry
+ * @returns Chain configuration with overrides applied
+ */
+function applyEnvOverrides(config: ChainConfig): ChainConfig {
+  const prefix = chainEnvPrefix(config.name);
+  const rpcUrls = process.env[`${prefix}_RPC_URLS`] || process.env[`${prefix}_RPC_URL`];
+  const startBlock = process.env[`START_BLOCK_${prefix}`];
+  
+  return {
+    ...config,
+    rpcUrls: rpcUrls ? parseRpcUrls(rpcUrls) : config.rpcUrls,
+    startBlock: startBlock ? parseInt(startBlock) : config.startBlock
+  };
+}
+
+/**
+ * Load the chain registry: the chains listed in CHAIN_REGISTRY_FILE, or Base when it is not set.
+ * The registry is read once per process.
+ * @returns Configured chains
+ */
+export function loadChainRegistry(): ChainConfig[] {
+  if (registry) {
+    return registry;
+  }
+  
+  const file = process.env.CHAIN_REGISTRY_FILE;
+  const entries: ChainConfig[] = file
+    ? JSON.parse(fs.readFileSync(file, 'utf8')).map(registryEntryToConfig)
+    : [BASE_CHAIN];
+  
+  const chainIds = new Set<number>();
+  for (const entry of entries) {
+    if (chainIds.has(entry.chainId)) {
+      throw new Error(`Chain ${entry.chainId} is listed twice in the chain registry`);
+    }
+    chainIds.add(entry.chainId);
+  }
+  
+  registry = entries.map(applyEnvOverrides);
+  return registry;
+}
+
+/**
+ * Find a chain in the registry
+ * @param chainId Chain ID
+ * @returns Chain configuration, or undefined if the chain is not registered
+ */
+export function findRegisteredChain(chainId: number): ChainConfig | undefined {
+  return loadChainRegistry().find(chain => chain.chainId === chainId);
+}
+
+/**
+ * Get the XBurn burn split expected at a block
+ * @param chainId Chain ID
+ * @param blockNumber Block of the burn
+ * @returns Latest split in effect at the block
+ */
+export function expectedBurnSplit(chainId: number, blockNumber: number): BurnSplit {
+  const splits = findRegisteredChain(chainId)?.burnSplits || DEFAULT_BURN_SPLITS;
+  const inEffect = splits.filter(split => split.fromBlock <= blockNumber);
+  
+  return inEffect.length > 0 ? inEffect[inEffect.length - 1] : splits[0];
+}
+
+/**
+ * Get the XBurnMinter reward terms of a chain
+ * @param chainId Chain ID
+ * @returns Reward terms from the registry, or the default terms
+ */
+export function rewardTermsFor(chainId: number): RewardTerms {
+  return findRegisteredChain(chainId)?.rewardTerms || DEFAULT_REWARD_TERMS;
+}
+
+/**
+ * Row of the chains table
+ */
+export interface ChainRow {
+  chain_id: number;
+  chain_name: string;
+  rpc_url: string | null;
+  rpc_urls: string[] | null;
+  xen_contract_address: string;
+  xburn_minter_contract_address: string;
+  xburn_nft_contract_address: string;
+  start_block: string | number | null;
+  last_indexed_block: string | number | null;
+  confirmations: number | null;
+  finality_tag: FinalityTag | null;
+  blocks_per_batch: number | null;
+  enabled: boolean;
+}
+
+/**
+ * Build a chain configuration from a row of the chains table
+ * @param row Row with the chains table columns
+ * @returns Chain configuration
+ */
+export function chainConfigFromRow(row: ChainRow): ChainConfig {
+  const registered = findRegisteredChain(row.chain_id);
+  
+  return {
+    chainId: row.chain_id,
+    name: row.chain_name,
+    rpcUrls: row.rpc_urls && row.rpc_urls.length > 0 ? row.rpc_urls : [row.rpc_url].filter(Boolean),
+    xenContractAddress: row.xen_contract_address,
+    xburnMinterAddress: row.xburn_minter_contract_address,
+    xburnNftAddress: row.xburn_nft_contract_address,
+    startBlock: Number(row.last_indexed_block) || Number(row.start_block) || (registered ? registered.startBlock : 0),
+    confirmations: row.confirmations ?? (registered ? registered.confirmations : DEFAULT_CONFIRMATIONS),
+    finalityTag: row.finality_tag || null,
+    blocksPerBatch: row.blocks_per_batch || (registered ? registered.blocksPerBatch : DEFAULT_BLOCKS_PER_BATCH), // Working size persisted by the listener
+    enabled: row.enabled !== false
+  };
+} 
+
+/**
+ * Load the configuration of a single chain from the database
+ * @param db Database pool
+ * @param chainId Chain ID
+ * @returns Chain configuration
+ */
+export async function loadChainConfig(db: Pool, chainId: number): Promise<ChainConfig> {
+  const result = await db.query(`SELECT * FROM chains WHERE chain_id = $1`, [chainId]);
+  
+  if (result.rows.length === 0) {
+    throw new Error(`Chain ${chainId} not found`);
+  }
+  
+  return chainConfigFromRow(result.rows[0]);
+}
\ No newline at end of file
@@ -0,0 +1,188 @@
+import { ethers } from 'ethers';
+import { ChainConfig } from '../config/chains';
+import { LogDecoder, RawLog } from './logDecoder';
+import XENCryptoABI from '../../contracts/XENCrypto.json';
+import XBurnMinterABI from '../../contracts/XBurnMinter.json';
+import XBurnNFTABI from '../../contracts/XBurnNFT.json';
+
+const xenCryptoInterface = new ethers.Interface(XENCryptoABI);
+const xburnMinterInterface = new ethers.Interface(XBurnMinterABI);
+const xburnNftInterface = new ethers.Interface(XBurnNFTABI);
+
+const XEN = '0x0000000000000000000000000000000000000a01';
+const MINTER = '0x0000000000000000000000000000000000000a02';
+const NFT = '0x0000000000000000000000000000000000000a03';
+// Decoded addresses are checksummed
+const USER = ethers.getAddress('0x00000000000000000000000000000000000000b1');
+const OTHER = ethers.getAddress('0x00000000000000000000000000000000000000b2');
+
+const config: ChainConfig = {
+  chainId: 8453,
+  name: 'Test',
+  rpcUrls: ['http://localhost:8545'],
+  xenContractAddress: XEN,
+  xburnMinterAddress: MINTER,
+  xburnNftAddress: NFT,
+  startBlock: 0,
+  confirmations: 12,
+  finalityTag: null,
+  blocksPerBatch: 1000,
+  enabled: true
+};
+
+const blockTimestamp = new Date('2025-01-01T00:00:00Z');
+
+/**
+ * Build a raw log emitted by a contract
+ */
+function rawLog(address: string, contract: ethers.Interface, event: string, args: unknown[], logIndex = 0): RawLog {
+  const { topics, data } = contract.encodeEventLog(event, args);
+  
+  return {
+    address,
+    topics,
+    data,
+    blockNumber: 100,
+    blockHash: '0x' + '11'.repeat(32),
+    transactionHash: '0x' + '22'.repeat(32),
+    transactionIndex: 0,
+    logIndex
+  };
+}
+
+/**
+ * Whether eth_getLogs would return a log for a filter
+ */
+function matchesFilter(filter: ethers.Filter, log: RawLog): boolean {
+  const addresses = ([] as string[]).concat(filter.address as string | string[]).map(address => address.toLowerCase());
+  
+  return addresses.includes(log.address.toLowerCase()) && (filter.topics ?? []).every((topic, index) =>
+    topic === null || ([] as string[]).concat(topic).includes(log.topics[index])
+  );
+}
+
+describe('LogDecoder', () => {
+  const decoder = new LogDecoder(config);
+  
+  it('only fetches XEN transfers to address(0) or XBurnMinter', () => {
+    const filters = decoder.getFilters(100, 200);
+    const fetched = (log: RawLog) => filters.some(filter => matchesFilter(filter, log));
+    
+    expect(filters.every(filter => filter.fromBlock === 100 && filter.toBlock === 200)).toBe(true);
+    expect(fetched(rawLog(XEN, xenCryptoInterface, 'Transfer', [USER, ethers.ZeroAddress, 1n]))).toBe(true);
+    expect(fetched(rawLog(XEN, xenCryptoInterface, 'Transfer', [USER, MINTER, 1n]))).toBe(true);
+    expect(fetched(rawLog(XEN, xenCryptoInterface, 'Transfer', [USER, OTHER, 1n]))).toBe(false);
+    expect(fetched(rawLog(XEN, xenCryptoInterface, 'Transfer', [ethers.ZeroAddress, USER, 1n]))).toBe(false);
+  });
+  
+  it('fetches every indexed XBurnMinter and XBurnNFT event', () => {
+    const filters = decoder.getFilters(100, 200);
+    const fetched = (log: RawLog) => filters.some(filter => matchesFilter(filter, log));
+    
+    expect(fetched(rawLog(MINTER, xburnMinterInterface, 'XENBurned', [USER, 1n]))).toBe(true);
+    expect(fetched(rawLog(MINTER, xburnMinterInterface, 'XBURNClaimed', [USER, 10n, 4n]))).toBe(true);
+    expect(fetched(rawLog(NFT, xburnNftInterface, 'LockClaimed', [42n]))).toBe(true);
+    expect(fetched(rawLog(OTHER, xburnMinterInterface, 'XENBurned', [USER, 1n]))).toBe(false);
+  });
+  
+  it('decodes XEN transfers to address(0) as burns', () => {
+    const log = rawLog(XEN, xenCryptoInterface, 'Transfer', [USER, ethers.ZeroAddress, 5000n], 3);
+    const decoded = decoder.decode(log, blockTimestamp);
+    
+    expect(decoded?.name).toBe('burnEvent');
+    expect(decoded?.data).toMatchObject({
+      from: USER,
+      value: '5000',
+      chainId: 8453,
+      blockNumber: 100,
+      logIndex: 3,
+      blockTimestamp,
+      rawLog: log
+    });
+  });
+  
+  it('decodes XEN transfers to XBurnMinter as accumulated XEN', () => {
+    const decoded = decoder.decode(rawLog(XEN, xenCryptoInterface, 'Transfer', [USER, MINTER, 2000n]), blockTimestamp);
+    
+    expect(decoded?.name).toBe('xenAccumulatedEvent');
+    expect(decoded?.data).toMatchObject({ from: USER, value: '2000' });
+  });
+  
+  it('only keeps transfers to XBurnMinter that an XENBurned or BurnNFTMinted of the transaction accounts for', () => {
+    const otherTransaction = '0x' + '33'.repeat(32);
+    const logs = [
+      rawLog(XEN, xenCryptoInterface, 'Transfer', [USER, MINTER, 2000n], 0),
+      rawLog(MINTER, xburnMinterInterface, 'XENBurned', [USER, 10000n], 1),
+      { ...rawLog(XEN, xenCryptoInterface, 'Transfer', [USER, MINTER, 300n], 0), transactionHash: otherTransaction },
+      { ...rawLog(XEN, xenCryptoInterface, 'Transfer', [OTHER, MINTER, 400n], 2), transactionHash: otherTransaction },
+      { ...rawLog(MINTER, xburnMinterInterface, 'BurnNFTMinted', [OTHER, 1n, 2000n, 30n], 3), transactionHash: otherTransaction }
+    ];
+    
+    const decoded = decoder.decodeLogs(logs, new Map([[100, blockTimestamp]]));
+    
+    expect(decoded.map(event => [event.name, event.data.transactionHash, event.data.logIndex])).toEqual([
+      ['xenAccumulatedEvent', logs[0].transactionHash, 0],
+      ['xenBurnedEvent', logs[0].transactionHash, 1],
+      ['xenAccumulatedEvent', otherTransaction, 2],
+      ['burnNftMintedEvent', otherTransaction, 3]
+    ]);
+  });
+  
+  it('ignores other XEN transfers', () => {
+    expect(decoder.decode(rawLog(XEN, xenCryptoInterface, 'Transfer', [USER, OTHER, 1n]), blockTimestamp)).toBeNull();
+  });
+  
+  it('decodes XBurnMinter events', () => {
+    const burned = decoder.decode(rawLog(MINTER, xburnMinterInterface, 'XENBurned', [USER, 7000n]), blockTimestamp);
+    expect(burned?.name).toBe('xenBurnedEvent');
+    expect(burned?.data).toMatchObject({ user: USER, amount: '7000' });
+    
+    const minted = decoder.decode(rawLog(MINTER, xburnMinterInterface, 'BurnNFTMinted', [USER, 42n, 7000n, 30n]), blockTimestamp);
+    expect(minted?.name).toBe('burnNftMintedEvent');
+    expect(minted?.data).toMatchObject({ user: USER, tokenId: '42', xenAmount: '7000', termDays: '30' });
+    
+    const claimed = decoder.decode(rawLog(MINTER, xburnMinterInterface, 'XBURNClaimed', [USER, 10n, 4n]), blockTimestamp);
+    expect(claimed?.name).toBe('xburnClaimedEvent');
+    expect(claimed?.data).toMatchObject({ user: USER, baseAmount: '10', bonusAmount: '4' });
+    
+    const xburnBurned = decoder.decode(rawLog(MINTER, xburnMinterInterface, 'XBURNBurned', [USER, 9n]), blockTimestamp);
+    expect(xburnBurned?.name).toBe('xburnBurnedEvent');
+    expect(xburnBurned?.data).toMatchObject({ user: USER, amount: '9' });
+    
+    const ended = decoder.decode(rawLog(MINTER, xburnMinterInterface, 'EmergencyEnd', [USER, 8n]), blockTimestamp);
+    expect(ended?.name).toBe('emergencyEndEvent');
+    expect(ended?.data).toMatchObject({ user: USER, baseAmount: '8' });
+  });
+  
+  it('decodes XBurnNFT events', () => {
+    const created = decoder.decode(
+      rawLog(NFT, xburnNftInterface, 'BurnLockCreated', [42n, USER, 7000n, 30n, 1738368000n]),
+      blockTimestamp
+    );
+    expect(created?.name).toBe('burnLockCreatedEvent');
+    expect(created?.data).toMatchObject({
+      tokenId: '42',
+      user: USER,
+      amount: '7000',
+      termDays: '30',
+      maturityTimestamp: new Date('2025-02-01T00:00:00Z')
+    });
+    
+    const claimed = decoder.decode(rawLog(NFT, xburnNftInterface, 'LockClaimed', [42n]), blockTimestamp);
+    expect(claimed?.name).toBe('lockClaimedEvent');
+    expect(claimed?.data).toMatchObject({ tokenId: '42' });
+    
+    const burned = decoder.decode(rawLog(NFT, xburnNftInterface, 'LockBurned', [42n]), blockTimestamp);
+    expect(burned?.name).toBe('lockBurnedEvent');
+    expect(burned?.data).toMatchObject({ tokenId: '42' });
+  });
+  
+  it('matches contract addresses case-insensitively', () => {
+    const log = rawLog(MINTER.toUpperCase().replace('0X', '0x'), xburnMinterInterface, 'XENBurned', [USER, 1n]);
+    expect(decoder.decode(log, blockTimestamp)?.name).toBe('xenBurnedEvent');
+  });
+  
+  it('ignores logs of other contracts', () => {
+    expect(decoder.decode(rawLog(OTHER, xburnMinterInterface, 'XENBurned', [USER, 1n]), blockTimestamp)).toBeNull();
+  });
+});
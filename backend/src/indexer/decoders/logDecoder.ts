@@ -0,0 +1,370 @@
+import { ethers } from 'ethers';
+import { ChainConfig } from '../config/chains';
+import XENCryptoABI from '../../contracts/XENCrypto.json';
+import XBurnMinterABI from '../../contracts/XBurnMinter.json';
+import XBurnNFTABI from '../../contracts/XBurnNFT.json';
+
+const xenCryptoInterface = new ethers.Interface(XENCryptoABI);
+const xburnMinterInterface = new ethers.Interface(XBurnMinterABI);
+const xburnNftInterface = new ethers.Interface(XBurnNFTABI);
+
+// Events indexed from each contract
+const XEN_EVENTS = ['Transfer'];
+const XBURN_MINTER_EVENTS = ['XENBurned', 'BurnNFTMinted', 'XBURNClaimed', 'XBURNBurned', 'EmergencyEnd'];
+const XBURN_NFT_EVENTS = ['BurnLockCreated', 'LockClaimed', 'LockBurned'];
+
+/**
+ * Raw log as returned by eth_getLogs, in the form it is persisted for replay
+ */
+export interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  logIndex: number;
+}
+
+/**
+ * Convert an ethers log into a plain raw log
+ * @param log Log returned by the provider
+ * @returns Raw log
+ */
+export function toRawLog(log: ethers.Log): RawLog {
+  return {
+    address: log.address,
+    topics: [...log.topics],
+    data: log.data,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    transactionIndex: log.transactionIndex,
+    logIndex: log.index
+  };
+}
+
+/**
+ * Fields shared by every decoded event
+ */
+export interface EventBase {
+  transactionHash: string;
+  blockNumber: number;
+  blockTimestamp: Date;
+  logIndex: number;
+  address: string;
+  chainId: number;
+  rawLog: RawLog;
+}
+
+/**
+ * XEN Transfer to address(0) or XBurnMinter
+ */
+export interface TransferEventData extends EventBase {
+  from: string;
+  value: string;
+  // Contract called by the transaction, set for burns without an XENBurned event; null when unknown
+  caller?: string | null;
+}
+
+/**
+ * XENBurned or XBURNBurned event
+ */
+export interface AmountEventData extends EventBase {
+  user: string;
+  amount: string;
+}
+
+/**
+ * BurnNFTMinted event
+ */
+export interface BurnNftMintedEventData extends EventBase {
+  user: string;
+  tokenId: string;
+  xenAmount: string;
+  termDays: string;
+}
+
+/**
+ * XBURNClaimed event
+ */
+export interface XburnClaimedEventData extends EventBase {
+  user: string;
+  baseAmount: string;
+  bonusAmount: string;
+}
+
+/**
+ * EmergencyEnd event
+ */
+export interface EmergencyEndEventData extends EventBase {
+  user: string;
+  baseAmount: string;
+}
+
+/**
+ * BurnLockCreated event
+ */
+export interface BurnLockCreatedEventData extends EventBase {
+  tokenId: string;
+  user: string;
+  amount: string;
+  termDays: string;
+  maturityTimestamp: Date;
+}
+
+/**
+ * LockClaimed or LockBurned event
+ */
+export interface LockEventData extends EventBase {
+  tokenId: string;
+}
+
+/**
+ * A log decoded into the listener event it is emitted as
+ */
+export type DecodedEvent =
+  | { name: 'burnEvent' | 'xenAccumulatedEvent'; data: TransferEventData }
+  | { name: 'xenBurnedEvent' | 'xburnBurnedEvent'; data: AmountEventData }
+  | { name: 'burnNftMintedEvent'; data: BurnNftMintedEventData }
+  | { name: 'xburnClaimedEvent'; data: XburnClaimedEventData }
+  | { name: 'emergencyEndEvent'; data: EmergencyEndEventData }
+  | { name: 'burnLockCreatedEvent'; data: BurnLockCreatedEventData }
+  | { name: 'lockClaimedEvent' | 'lockBurnedEvent'; data: LockEventData };
+
+/**
+ * LogDecoder builds the log filters for a chain and decodes the returned logs locally
+ */
+export class LogDecoder {
+  private chainConfig: ChainConfig;
+  private xenAddress: string;
+  private xburnMinterAddress: string;
+  private xburnNftAddress: string;
+  
+  /**
+   * Create a new LogDecoder instance
+   * @param chainConfig Configuration for the chain whose logs are decoded
+   */
+  constructor(chainConfig: ChainConfig) {
+    this.chainConfig = chainConfig;
+    this.xenAddress = chainConfig.xenContractAddress.toLowerCase();
+    this.xburnMinterAddress = chainConfig.xburnMinterAddress.toLowerCase();
+    this.xburnNftAddress = chainConfig.xburnNftAddress.toLowerCase();
+  }
+  
+  /**
+   * Build the eth_getLogs filters covering every contract and topic we index.
+   * XEN Transfers are only fetched when they go to address(0) or XBurnMinter, the only ones decoded,
+   * which needs a filter of their own since topic filters apply to every address of a filter
+   * @param fromBlock Start block
+   * @param toBlock End block
+   * @returns Log filters
+   */
+  getFilters(fromBlock: number, toBlock: number): ethers.Filter[] {
+    const xenTopics = XEN_EVENTS.map(name => xenCryptoInterface.getEvent(name)!.topicHash);
+    const xburnTopics = [
+      ...XBURN_MINTER_EVENTS.map(name => xburnMinterInterface.getEvent(name)!.topicHash),
+      ...XBURN_NFT_EVENTS.map(name => xburnNftInterface.getEvent(name)!.topicHash)
+    ];
+    const recipients = [ethers.ZeroAddress, this.chainConfig.xburnMinterAddress].map(address => ethers.zeroPadValue(address, 32));
+    
+    return [
+      {
+        address: this.chainConfig.xenContractAddress,
+        topics: [xenTopics, null, recipients],
+        fromBlock,
+        toBlock
+      },
+      {
+        address: [this.chainConfig.xburnMinterAddress, this.chainConfig.xburnNftAddress],
+        topics: [Array.from(new Set(xburnTopics))],
+        fromBlock,
+        toBlock
+      }
+    ];
+  }
+  
+  /**
+   * Decode the logs of whole transactions. XEN transfers to XBurnMinter are only kept as accumulated XEN
+   * when an XENBurned or BurnNFTMinted event of the same transaction and user shows they are part of an
+   * XBurn burn; other transfers to the contract are not burns.
+   * @param logs Raw logs in (block, logIndex) order, holding every indexed log of their transactions
+   * @param blockTimestamps Timestamp of each block
+   * @returns Decoded events
+   */
+  decodeLogs(logs: RawLog[], blockTimestamps: Map<number, Date>): DecodedEvent[] {
+    const events: DecodedEvent[] = [];
+    
+    for (const log of logs) {
+      const decoded = this.decode(log, blockTimestamps.get(log.blockNumber)!);
+      
+      if (decoded) {
+        events.push(decoded);
+      }
+    }
+    
+    const xburnBurns = new Set<string>();
+    for (const event of events) {
+      if (event.name === 'xenBurnedEvent' || event.name === 'burnNftMintedEvent') {
+        xburnBurns.add(`${event.data.transactionHash}:${event.data.user.toLowerCase()}`);
+      }
+    }
+    
+    return events.filter(event =>
+      event.name !== 'xenAccumulatedEvent' ||
+      xburnBurns.has(`${event.data.transactionHash}:${event.data.from.toLowerCase()}`)
+    );
+  }
+  
+  /**
+   * Decode a raw log into a listener event. A transfer to XBurnMinter is decoded as accumulated XEN
+   * on its own; decodeLogs drops the ones that are not part of an XBurn burn.
+   * @param log Raw log returned by eth_getLogs or loaded from raw_logs
+   * @param blockTimestamp Timestamp of the log's block
+   * @returns Decoded event, or null if the log is not one we index
+   */
+  decode(log: RawLog, blockTimestamp: Date): DecodedEvent | null {
+    const address = log.address.toLowerCase();
+    
+    const base: EventBase = {
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      blockTimestamp,
+      logIndex: log.logIndex,
+      address: log.address,
+      chainId: this.chainConfig.chainId,
+      rawLog: log
+    };
+    
+    if (address === this.xenAddress) {
+      const parsed = xenCryptoInterface.parseLog(log);
+      
+      if (!parsed || parsed.name !== 'Transfer') {
+        return null;
+      }
+      
+      // Transfers to address(0) are burns
+      if (parsed.args[1] === ethers.ZeroAddress) {
+        return {
+          name: 'burnEvent',
+          data: {
+            ...base,
+            from: parsed.args[0], // from address
+            value: parsed.args[2].toString() // amount
+          }
+        };
+      }
+      
+      // Transfers to XBurnMinter are the share of an XBurn burn it accumulates, if the transaction is one
+      if (parsed.args[1].toLowerCase() === this.xburnMinterAddress) {
+        return {
+          name: 'xenAccumulatedEvent',
+          data: {
+            ...base,
+            from: parsed.args[0], // from address
+            value: parsed.args[2].toString() // amount
+          }
+        };
+      }
+      
+      return null;
+    }
+    
+    if (address === this.xburnMinterAddress) {
+      const parsed = xburnMinterInterface.parseLog(log);
+      
+      switch (parsed?.name) {
+        case 'XENBurned':
+          return {
+            name: 'xenBurnedEvent',
+            data: {
+              ...base,
+              user: parsed.args[0], // user address
+              amount: parsed.args[1].toString() // amount
+            }
+          };
+        case 'BurnNFTMinted':
+          return {
+            name: 'burnNftMintedEvent',
+            data: {
+              ...base,
+              user: parsed.args[0], // user address
+              tokenId: parsed.args[1].toString(), // tokenId
+              xenAmount: parsed.args[2].toString(), // xenAmount
+              termDays: parsed.args[3].toString() // termDays
+            }
+          };
+        case 'XBURNClaimed':
+          return {
+            name: 'xburnClaimedEvent',
+            data: {
+              ...base,
+              user: parsed.args[0], // user address
+              baseAmount: parsed.args[1].toString(), // baseAmount
+              bonusAmount: parsed.args[2].toString() // bonusAmount
+            }
+          };
+        case 'XBURNBurned':
+          return {
+            name: 'xburnBurnedEvent',
+            data: {
+              ...base,
+              user: parsed.args[0], // user address
+              amount: parsed.args[1].toString() // amount
+            }
+          };
+        case 'EmergencyEnd':
+          return {
+            name: 'emergencyEndEvent',
+            data: {
+              ...base,
+              user: parsed.args[0], // user address
+              baseAmount: parsed.args[1].toString() // baseAmount
+            }
+          };
+        default:
+          return null;
+      }
+    }
+    
+    if (address === this.xburnNftAddress) {
+      const parsed = xburnNftInterface.parseLog(log);
+      
+      switch (parsed?.name) {
+        case 'BurnLockCreated':
+          return {
+            name: 'burnLockCreatedEvent',
+            data: {
+              ...base,
+              tokenId: parsed.args[0].toString(), // tokenId
+              user: parsed.args[1], // user address
+              amount: parsed.args[2].toString(), // XEN amount
+              termDays: parsed.args[3].toString(), // termDays
+              maturityTimestamp: new Date(Number(parsed.args[4]) * 1000) // maturityTimestamp
+            }
+          };
+        case 'LockClaimed':
+          return {
+            name: 'lockClaimedEvent',
+            data: {
+              ...base,
+              tokenId: parsed.args[0].toString() // tokenId
+            }
+          };
+        case 'LockBurned':
+          return {
+            name: 'lockBurnedEvent',
+            data: {
+              ...base,
+              tokenId: parsed.args[0].toString() // tokenId
+            }
+          };
+        default:
+          return null;
+      }
+    }
+    
+    return null;
+  }
+}
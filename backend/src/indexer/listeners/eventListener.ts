@@ -1,89 +1,239 @@
 import { ethers } from 'ethers';
 import { EventEmitter } from 'events';
+import { PoolClient } from 'pg';
 import { ChainConfig } from '../config/chains';
-import XENCryptoABI from '../../contracts/XENCrypto.json';
-import XBurnMinterABI from '../../contracts/XBurnMinter.json';
-import XBurnNFTABI from '../../contracts/XBurnNFT.json';
+import { BlockService } from '../services/blockService';
+import { FailoverProvider, isRangeLimitError } from '../services/failoverProvider';
+import { ReorgService } from '../services/reorgService';
+import { FinalityThresholds, checkpointTarget, resolveFinality } from '../services/finality';
+import { DecodedEvent, LogDecoder, TransferEventData, toRawLog } from '../decoders/logDecoder';
 
-// Define interface for the events to have proper typing
-interface EventWithArgs extends ethers.Log {
-  args: Array<any>;
+// Bounds for the adaptive batch size
+const MIN_BLOCKS_PER_BATCH = 10;
+const MAX_BLOCKS_PER_BATCH = 10000;
+
+// A full batch returning fewer logs than this grows the next batch
+const SPARSE_BATCH_LOG_COUNT = 500;
+
+/**
+ * Ordered events of a block range, handed to the batch handler to be stored atomically
+ */
+export interface EventBatch {
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  events: DecodedEvent[];
+  lastBlock: ethers.Block | null;
+  blocksPerBatch: number;
+  advanceCheckpoint: boolean;
+  writeCheckpoint?: (client: PoolClient) => Promise<void>; // Extra progress written in the batch transaction
+  finality?: FinalityThresholds; // Rows at or below these blocks are promoted to safe or final; tip batches leave them pending
+}
+
+/**
+ * Failed catch-up batch, emitted as the listener's `error` event
+ */
+export interface ListenerError {
+  chainId: number;
+  fromBlock: number; // First block of the batch; the next run retries from here
+  error: unknown;
 }
 
+/**
+ * Handler that stores a batch; the listener only advances once it resolves
+ */
+export type BatchHandler = (batch: EventBatch) => Promise<void>;
+
+/**
+ * Lifecycle state of a listener
+ */
+export type ListenerState = 'stopped' | 'running' | 'paused';
+
 /**
  * EventListener class that connects to blockchain nodes and listens for relevant events
  */
 export class EventListener extends EventEmitter {
-  private provider: ethers.JsonRpcProvider;
-  private xenContract: ethers.Contract;
-  private xburnMinterContract: ethers.Contract;
-  private xburnNftContract: ethers.Contract;
+  private provider: FailoverProvider;
+  private logDecoder: LogDecoder;
   private lastProcessedBlock: number;
   public chainConfig: ChainConfig;
-  private isProcessing: boolean = false;
+  private blockService: BlockService;
+  private reorgService: ReorgService;
+  private blocksPerBatch: number;
+  private isProcessing: boolean = false; // A catch-up run is queued or running
+  private caughtUp: boolean = false; // The last batch reached the confirmation depth instead of stopping at the batch size
+  private confirmationDepth: number; // Blocks the checkpoint stays behind the head, from the confirmations or the finality tag
+  private workQueue: Promise<void> = Promise.resolve();
+  private batchHandler: BatchHandler | null = null;
+  private state: ListenerState = 'stopped';
+  private pollTimer: NodeJS.Timeout | null = null;
+  private blockHandler: ((blockNumber: number) => void) | null = null;
+  private activeWork: Set<Promise<void>> = new Set();
   
   /**
    * Create a new EventListener instance
    * @param chainConfig Configuration for the chain to listen to
+   * @param provider Shared RPC provider for the chain
+   * @param blockService Service used to resolve block timestamps
+   * @param reorgService Service used to record block hashes and roll back reorganized blocks
    * @param startBlock Optional override for the starting block
    */
-  constructor(chainConfig: ChainConfig, startBlock?: number) {
+  constructor(
+    chainConfig: ChainConfig,
+    provider: FailoverProvider,
+    blockService: BlockService,
+    reorgService: ReorgService,
+    startBlock?: number
+  ) {
     super();
     this.chainConfig = chainConfig;
+    this.blockService = blockService;
+    this.reorgService = reorgService;
     
-    // Initialize provider and contracts
-    this.provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
-    
-    this.xenContract = new ethers.Contract(
-      chainConfig.xenContractAddress,
-      XENCryptoABI,
-      this.provider
-    );
-    
-    this.xburnMinterContract = new ethers.Contract(
-      chainConfig.xburnMinterAddress,
-      XBurnMinterABI,
-      this.provider
-    );
-    
-    this.xburnNftContract = new ethers.Contract(
-      chainConfig.xburnNftAddress,
-      XBurnNFTABI,
-      this.provider
-    );
+    // Initialize provider and log decoder
+    this.provider = provider;
+    this.logDecoder = new LogDecoder(chainConfig);
+    this.blocksPerBatch = chainConfig.blocksPerBatch;
+    this.confirmationDepth = chainConfig.confirmations;
     
     this.lastProcessedBlock = startBlock || chainConfig.startBlock;
   }
   
+  /**
+   * Set the handler that stores each batch of events
+   * @param handler Batch handler
+   */
+  setBatchHandler(handler: BatchHandler): void {
+    this.batchHandler = handler;
+  }
+  
+  /**
+   * Get the lifecycle state of the listener
+   * @returns Listener state
+   */
+  getState(): ListenerState {
+    return this.state;
+  }
+  
   /**
    * Start listening for events with the provided interval
    * @param interval Time in ms between batch processing
    */
   async startListening(interval: number = 60000): Promise<void> {
+    if (this.state !== 'stopped') {
+      return;
+    }
+    
     console.log(`Starting event listener for chain ${this.chainConfig.name} (${this.chainConfig.chainId})`);
     console.log(`Starting from block ${this.lastProcessedBlock}`);
+    this.state = 'running';
     
     // Initial processing
-    await this.processEvents();
+    await this.track(this.processEvents());
     
     // Set up recurring interval
-    setInterval(() => this.processEvents(), interval);
+    this.pollTimer = setInterval(() => this.track(this.processEvents()), interval);
     
     // Set up new block listener for real-time events
-    this.provider.on('block', (blockNumber: number) => {
-      // Only process very recent blocks immediately
-      if (blockNumber > this.lastProcessedBlock + 5) {
-        this.processLatestBlock(blockNumber);
+    this.blockHandler = (blockNumber: number) => {
+      // Only process blocks the checkpoint cannot reach yet, and not while it is still backfilling
+      if (this.caughtUp && blockNumber > this.lastProcessedBlock + this.confirmationDepth) {
+        this.track(this.processLatestBlock(blockNumber));
       }
-    });
+    };
+    this.provider.on('block', this.blockHandler);
     
     console.log(`Event listener started for chain ${this.chainConfig.name}`);
   }
   
+  /**
+   * Stop polling and block subscriptions, then wait for the in-flight batch to finish
+   */
+  async stop(): Promise<void> {
+    if (this.state === 'stopped') {
+      return;
+    }
+    
+    this.state = 'stopped';
+    
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    
+    if (this.blockHandler) {
+      this.provider.off('block', this.blockHandler);
+      this.blockHandler = null;
+    }
+    
+    await this.drain();
+    console.log(`Event listener stopped for chain ${this.chainConfig.name}`);
+  }
+  
+  /**
+   * Stop starting new batches while keeping subscriptions, then wait for the in-flight batch to finish
+   */
+  async pause(): Promise<void> {
+    if (this.state !== 'running') {
+      return;
+    }
+    
+    this.state = 'paused';
+    await this.drain();
+    console.log(`Event listener paused for chain ${this.chainConfig.name}`);
+  }
+  
+  /**
+   * Resume a paused listener and catch up right away
+   */
+  resume(): void {
+    if (this.state !== 'paused') {
+      return;
+    }
+    
+    this.state = 'running';
+    console.log(`Event listener resumed for chain ${this.chainConfig.name}`);
+    this.track(this.processEvents());
+  }
+  
+  /**
+   * Keep track of running work so stop and pause can wait for it
+   * @param work Promise of the running work
+   * @returns The same promise
+   */
+  private track(work: Promise<void>): Promise<void> {
+    this.activeWork.add(work);
+    const done = () => { this.activeWork.delete(work); };
+    work.then(done, done);
+    return work;
+  }
+  
+  /**
+   * Wait for all tracked work to settle
+   */
+  private async drain(): Promise<void> {
+    await Promise.allSettled([...this.activeWork]);
+  }
+  
+  /**
+   * Run listener work one piece at a time, so batches, tip blocks and reorg rollbacks never overlap
+   * @param work Work to run once everything queued before it has finished
+   * @returns Result of the work
+   */
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.workQueue.then(work);
+    this.workQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+  
   /**
    * Process batches of events from last processed block
    */
   private async processEvents(): Promise<void> {
+    if (this.state !== 'running') {
+      return;
+    }
+    
     if (this.isProcessing) {
       console.log(`Already processing events for chain ${this.chainConfig.chainId}, skipping...`);
       return;
@@ -91,188 +241,242 @@ export class EventListener extends EventEmitter {
     
     this.isProcessing = true;
     
+    try {
+      // Continue right away after a rollback or a batch size reduction
+      let rerunImmediately = true;
+      while (rerunImmediately && this.state === 'running') {
+        rerunImmediately = await this.exclusive(() => this.processNextBatch());
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+  
+  /**
+   * Process the next batch from the last processed block
+   * @returns True if the listener should continue right away
+   */
+  private async processNextBatch(): Promise<boolean> {
     try {
       const currentBlock = await this.provider.getBlockNumber();
+      const finality = await resolveFinality(this.provider, this.chainConfig, currentBlock);
       const fromBlock = this.lastProcessedBlock + 1;
-      const toBlock = Math.min(
-        currentBlock - 5, // Leave a small buffer for reorgs
-        fromBlock + this.chainConfig.blocksPerBatch - 1
-      );
+      const target = checkpointTarget(this.chainConfig, finality); // Stay behind the head by the confirmation depth or finality tag
+      const toBlock = Math.min(target, fromBlock + this.blocksPerBatch - 1);
+      
+      // Tip blocks are only indexed once the checkpoint is within the confirmation depth of the head
+      this.caughtUp = toBlock >= target;
+      this.confirmationDepth = Math.max(0, currentBlock - target);
       
       if (fromBlock > toBlock) {
         console.log(`No new blocks to process for chain ${this.chainConfig.chainId}`);
-        this.isProcessing = false;
-        return;
+        return false;
+      }
+      
+      // Make sure the checkpoint block and the newest real-time tip block are still canonical
+      const orphanedBlock = await this.reorgService.findOrphanedBlock(this.chainConfig.chainId, this.provider, this.lastProcessedBlock);
+      if (orphanedBlock !== null) {
+        await this.handleReorg(orphanedBlock);
+        return true;
       }
       
       console.log(`Processing blocks ${fromBlock} to ${toBlock} for chain ${this.chainConfig.chainId}`);
       
-      // Process events in parallel
-      await Promise.all([
-        this.processBurnEvents(fromBlock, toBlock),
-        this.processXenBurnedEvents(fromBlock, toBlock),
-        this.processBurnNFTMintedEvents(fromBlock, toBlock),
-        this.processXburnClaimedEvents(fromBlock, toBlock)
-      ]);
+      let fetched: { events: DecodedEvent[]; logCount: number };
+      try {
+        fetched = await this.fetchEvents(fromBlock, toBlock);
+      } catch (error) {
+        // Split the range and retry when the provider rejects its size
+        if (isRangeLimitError(error) && this.blocksPerBatch > MIN_BLOCKS_PER_BATCH) {
+          const rangeSize = toBlock - fromBlock + 1;
+          this.setBlocksPerBatch(Math.max(MIN_BLOCKS_PER_BATCH, Math.floor(Math.min(rangeSize, this.blocksPerBatch) / 2)));
+          console.warn(`Provider rejected blocks ${fromBlock} to ${toBlock} for chain ${this.chainConfig.chainId}, retrying with ${this.blocksPerBatch} blocks per batch`);
+          return true;
+        }
+        throw error;
+      }
+      
+      // Grow the range again when full batches are sparse
+      if (toBlock - fromBlock + 1 >= this.blocksPerBatch && fetched.logCount < SPARSE_BATCH_LOG_COUNT && this.blocksPerBatch < MAX_BLOCKS_PER_BATCH) {
+        this.setBlocksPerBatch(Math.min(MAX_BLOCKS_PER_BATCH, this.blocksPerBatch * 2));
+      }
+      
+      // Store the events, the hash of the batch's last block and the checkpoint in one transaction
+      await this.storeBatch({
+        chainId: this.chainConfig.chainId,
+        fromBlock,
+        toBlock,
+        events: fetched.events,
+        lastBlock: await this.provider.getBlock(toBlock),
+        blocksPerBatch: this.blocksPerBatch,
+        advanceCheckpoint: true,
+        finality
+      });
       
-      // Update last processed block
+      // Only move on once the batch is committed
       this.lastProcessedBlock = toBlock;
       this.emit('blockProcessed', { chainId: this.chainConfig.chainId, blockNumber: toBlock });
       
       console.log(`Processed blocks ${fromBlock} to ${toBlock} for chain ${this.chainConfig.chainId}`);
     } catch (error) {
       console.error(`Error processing events: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      this.emit('error', { chainId: this.chainConfig.chainId, error });
-    } finally {
-      this.isProcessing = false;
+      const failure: ListenerError = { chainId: this.chainConfig.chainId, fromBlock: this.lastProcessedBlock + 1, error };
+      this.emit('error', failure);
     }
+    
+    return false;
   }
   
   /**
-   * Process a single latest block for real-time updates
-   * @param blockNumber Block number to process
+   * Change the working batch size; it is persisted with the next checkpoint
+   * @param blocksPerBatch New number of blocks per batch
    */
-  private async processLatestBlock(blockNumber: number): Promise<void> {
-    try {
-      // Process only the specific block for real-time updates
-      await Promise.all([
-        this.processBurnEvents(blockNumber, blockNumber),
-        this.processXenBurnedEvents(blockNumber, blockNumber),
-        this.processBurnNFTMintedEvents(blockNumber, blockNumber),
-        this.processXburnClaimedEvents(blockNumber, blockNumber)
-      ]);
-      
-      console.log(`Processed latest block ${blockNumber} for chain ${this.chainConfig.chainId}`);
-    } catch (error) {
-      console.error(`Error processing latest block ${blockNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  private setBlocksPerBatch(blocksPerBatch: number): void {
+    if (blocksPerBatch === this.blocksPerBatch) {
+      return;
     }
+    
+    console.log(`Adjusting batch size for chain ${this.chainConfig.chainId} from ${this.blocksPerBatch} to ${blocksPerBatch} blocks`);
+    this.blocksPerBatch = blocksPerBatch;
   }
   
   /**
-   * Process XEN transfer events to address(0) as burns
-   * @param fromBlock Start block
-   * @param toBlock End block
+   * Hand a batch to the batch handler
+   * @param batch Batch to store
    */
-  private async processBurnEvents(fromBlock: number, toBlock: number): Promise<void> {
-    try {
-      // Use Transfer event to 0x0000000000000000000000000000000000000000 address for burns
-      const burnFilter = this.xenContract.filters.Transfer(null, ethers.ZeroAddress);
-      const events = await this.xenContract.queryFilter(burnFilter, fromBlock, toBlock);
-      
-      for (const event of events) {
-        // Get transaction timestamp from the block
-        const block = await event.getBlock();
-        const typedEvent = event as EventWithArgs;
-        
-        this.emit('burnEvent', {
-          transactionHash: event.transactionHash,
-          blockNumber: event.blockNumber,
-          blockTimestamp: new Date(Number(block.timestamp) * 1000),
-          from: typedEvent.args[0], // from address
-          value: typedEvent.args[2].toString(), // amount
-          chainId: this.chainConfig.chainId
-        });
-      }
-      
-      console.log(`Processed ${events.length} burn events for chain ${this.chainConfig.chainId}`);
-    } catch (error) {
-      console.error(`Error processing burn events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  private async storeBatch(batch: EventBatch): Promise<void> {
+    if (!this.batchHandler) {
+      throw new Error(`No batch handler set for chain ${this.chainConfig.chainId}`);
     }
+    
+    await this.batchHandler(batch);
   }
   
   /**
-   * Process XENBurned events from XBurnMinter contract
-   * @param fromBlock Start block
-   * @param toBlock End block
+   * Roll back every row derived from orphaned blocks and rewind the listener to the common ancestor.
+   * Only called from work running through exclusive, so no batch is being stored meanwhile.
+   * @param orphanedBlock Recorded block that is no longer canonical
    */
-  private async processXenBurnedEvents(fromBlock: number, toBlock: number): Promise<void> {
-    try {
-      const burnFilter = this.xburnMinterContract.filters.XENBurned();
-      const events = await this.xburnMinterContract.queryFilter(burnFilter, fromBlock, toBlock);
+  private async handleReorg(orphanedBlock: number): Promise<void> {
+    const chainId = this.chainConfig.chainId;
+    const orphanedHash = await this.reorgService.getRecordedHash(chainId, orphanedBlock);
+    const canonicalBlock = await this.provider.getBlock(orphanedBlock);
+    
+    console.warn(`Chain reorganization detected at block ${orphanedBlock} for chain ${chainId}`);
+    
+    const commonAncestor = await this.reorgService.findCommonAncestor(chainId, this.provider, orphanedBlock);
+    const result = await this.reorgService.rollback(
+      chainId,
+      commonAncestor,
+      orphanedBlock,
+      orphanedHash,
+      canonicalBlock ? canonicalBlock.hash : null
+    );
+    
+    this.blockService.invalidateAbove(chainId, commonAncestor);
+    this.lastProcessedBlock = Math.min(this.lastProcessedBlock, commonAncestor);
+    this.emit('reorg', { chainId, orphanedBlock, ...result });
+  }
+  
+  /**
+   * Process a single latest block for real-time updates. The block waits for any running batch,
+   * so its parent hash is always checked against what that batch recorded.
+   * @param blockNumber Block number to process
+   */
+  private processLatestBlock(blockNumber: number): Promise<void> {
+    return this.exclusive(async () => {
+      // A batch that ran while this block waited may already cover it
+      if (this.state !== 'running' || blockNumber <= this.lastProcessedBlock) {
+        return;
+      }
       
-      for (const event of events) {
-        // Get transaction timestamp from the block
-        const block = await event.getBlock();
-        const typedEvent = event as EventWithArgs;
+      try {
+        const block = await this.provider.getBlock(blockNumber);
+        if (!block) {
+          return;
+        }
         
-        this.emit('xenBurnedEvent', {
-          transactionHash: event.transactionHash,
-          blockNumber: event.blockNumber,
-          blockTimestamp: new Date(Number(block.timestamp) * 1000),
-          user: typedEvent.args[0], // user address
-          amount: typedEvent.args[1].toString(), // amount
-          chainId: this.chainConfig.chainId
+        // A tip block that does not build on the block we recorded means the chain reorganized;
+        // the regular batches index the new branch
+        if (await this.reorgService.hasParentMismatch(this.chainConfig.chainId, block)) {
+          await this.handleReorg(blockNumber - 1);
+          return;
+        }
+        
+        // Process only the specific block for real-time updates; the checkpoint stays with the regular batches
+        const fetched = await this.fetchEvents(blockNumber, blockNumber);
+        
+        await this.storeBatch({
+          chainId: this.chainConfig.chainId,
+          fromBlock: blockNumber,
+          toBlock: blockNumber,
+          events: fetched.events,
+          lastBlock: block,
+          blocksPerBatch: this.blocksPerBatch,
+          advanceCheckpoint: false
         });
+        
+        console.log(`Processed latest block ${blockNumber} for chain ${this.chainConfig.chainId}`);
+      } catch (error) {
+        console.error(`Error processing latest block ${blockNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
-      
-      console.log(`Processed ${events.length} XENBurned events for chain ${this.chainConfig.chainId}`);
-    } catch (error) {
-      console.error(`Error processing XENBurned events: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    });
   }
   
   /**
-   * Process BurnNFTMinted events from XBurnMinter contract
+   * Fetch all relevant logs for a block range with one eth_getLogs call per filter
+   * and decode them locally in (block, logIndex) order
    * @param fromBlock Start block
    * @param toBlock End block
+   * @returns Decoded events and the number of logs returned by the provider
    */
-  private async processBurnNFTMintedEvents(fromBlock: number, toBlock: number): Promise<void> {
-    try {
-      const mintFilter = this.xburnMinterContract.filters.BurnNFTMinted();
-      const events = await this.xburnMinterContract.queryFilter(mintFilter, fromBlock, toBlock);
-      
-      for (const event of events) {
-        // Get transaction timestamp from the block
-        const block = await event.getBlock();
-        const typedEvent = event as EventWithArgs;
-        
-        this.emit('burnNftMintedEvent', {
-          transactionHash: event.transactionHash,
-          blockNumber: event.blockNumber,
-          blockTimestamp: new Date(Number(block.timestamp) * 1000),
-          user: typedEvent.args[0], // user address
-          tokenId: typedEvent.args[1].toString(), // tokenId
-          xenAmount: typedEvent.args[2].toString(), // xenAmount
-          termDays: typedEvent.args[3].toString(), // termDays
-          chainId: this.chainConfig.chainId
-        });
-      }
-      
-      console.log(`Processed ${events.length} BurnNFTMinted events for chain ${this.chainConfig.chainId}`);
-    } catch (error) {
-      console.error(`Error processing BurnNFTMinted events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  async fetchEvents(fromBlock: number, toBlock: number): Promise<{ events: DecodedEvent[]; logCount: number }> {
+    const logs: ethers.Log[] = [];
+    
+    for (const filter of this.logDecoder.getFilters(fromBlock, toBlock)) {
+      logs.push(...await this.provider.getLogs(filter));
     }
+    
+    // Resolve timestamps once per block
+    const timestamps = await this.blockService.getBlockTimestamps(
+      this.chainConfig.chainId,
+      logs.map(log => log.blockNumber)
+    );
+    
+    const sortedLogs = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    const blockTimestamps = new Map([...timestamps].map(([blockNumber, timestamp]) => [blockNumber, new Date(timestamp * 1000)]));
+    const events = this.logDecoder.decodeLogs(sortedLogs.map(toRawLog), blockTimestamps);
+    
+    await this.resolveBurnCallers(events);
+    
+    console.log(`Decoded ${events.length} events from ${logs.length} logs for chain ${this.chainConfig.chainId}`);
+    
+    return { events, logCount: logs.length };
   }
   
   /**
-   * Process XBURNClaimed events from XBurnMinter contract
-   * @param fromBlock Start block
-   * @param toBlock End block
+   * Look up the contract called by each transaction that burns XEN without an XENBurned event,
+   * so the processor can tell burns through other protocols from burns made on XEN directly.
+   * Transactions seen before, e.g. when a range is indexed again, are answered from burn_callers
+   * @param events Decoded events of a batch; burn events get a `caller` field
    */
-  private async processXburnClaimedEvents(fromBlock: number, toBlock: number): Promise<void> {
-    try {
-      const claimFilter = this.xburnMinterContract.filters.XBURNClaimed();
-      const events = await this.xburnMinterContract.queryFilter(claimFilter, fromBlock, toBlock);
-      
-      for (const event of events) {
-        // Get transaction timestamp from the block
-        const block = await event.getBlock();
-        const typedEvent = event as EventWithArgs;
-        
-        this.emit('xburnClaimedEvent', {
-          transactionHash: event.transactionHash,
-          blockNumber: event.blockNumber,
-          blockTimestamp: new Date(Number(block.timestamp) * 1000),
-          user: typedEvent.args[0], // user address
-          baseAmount: typedEvent.args[1].toString(), // baseAmount
-          bonusAmount: typedEvent.args[2].toString(), // bonusAmount
-          chainId: this.chainConfig.chainId
-        });
+  private async resolveBurnCallers(events: DecodedEvent[]): Promise<void> {
+    const xburnTransactions = new Set(
+      events.filter(event => event.name === 'xenBurnedEvent').map(event => event.data.transactionHash)
+    );
+    const burns: TransferEventData[] = [];
+    for (const event of events) {
+      if (event.name === 'burnEvent' && !xburnTransactions.has(event.data.transactionHash)) {
+        burns.push(event.data);
       }
-      
-      console.log(`Processed ${events.length} XBURNClaimed events for chain ${this.chainConfig.chainId}`);
-    } catch (error) {
-      console.error(`Error processing XBURNClaimed events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    const callers = await this.blockService.getTransactionCallers(
+      this.chainConfig.chainId,
+      burns.map(burn => burn.transactionHash)
+    );
+    
+    for (const burn of burns) {
+      burn.caller = callers.get(burn.transactionHash);
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+import { Pool } from 'pg';
+import { ChainManager } from './chainManager';
+import { BASE_CHAIN, ChainRow } from '../config/chains';
+import { createTestDb } from '../../testing/testDb';
+
+describe('ChainManager', () => {
+  let pool: Pool;
+  let chainManager: ChainManager;
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    
+    pool = createTestDb().pool;
+    chainManager = new ChainManager(pool);
+    
+    // Keep the registry chain's listener from starting
+    await pool.query(`UPDATE chains SET enabled = false WHERE chain_id = $1`, [BASE_CHAIN.chainId]);
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  /**
+   * Sync the chain registry into the database, as on startup
+   */
+  async function syncRegistry(): Promise<void> {
+    await chainManager['loadChainConfigurations']();
+  }
+  
+  /**
+   * Stored row of the registry chain
+   */
+  async function baseChain(): Promise<ChainRow & { admin_overrides: string[] }> {
+    const result = await pool.query(`SELECT * FROM chains WHERE chain_id = $1`, [BASE_CHAIN.chainId]);
+    return result.rows[0];
+  }
+  
+  it('keeps settings an admin changed when the registry is synced again', async () => {
+    await syncRegistry();
+    expect(await chainManager.updateChain(BASE_CHAIN.chainId, { confirmations: 64, rpcUrls: ['https://rpc.example'] })).toBe(true);
+    
+    await syncRegistry();
+    
+    const chain = await baseChain();
+    expect(chain.confirmations).toBe(64);
+    expect(chain.rpc_urls).toEqual(['https://rpc.example']);
+    expect(chain.rpc_url).toBe('https://rpc.example');
+    expect([...chain.admin_overrides].sort()).toEqual(['confirmations', 'rpc_urls']);
+  });
+  
+  it('still applies registry values to settings no admin changed', async () => {
+    await pool.query(`UPDATE chains SET chain_name = 'Renamed', confirmations = 1 WHERE chain_id = $1`, [BASE_CHAIN.chainId]);
+    
+    await syncRegistry();
+    
+    const chain = await baseChain();
+    expect(chain.chain_name).toBe(BASE_CHAIN.name);
+    expect(chain.confirmations).toBe(BASE_CHAIN.confirmations);
+  });
+});
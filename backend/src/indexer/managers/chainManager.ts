@@ -2,8 +2,76 @@ import { Pool } from 'pg';
 import { EventListener } from '../listeners/eventListener';
 import { EventProcessor } from '../processors/eventProcessor';
 import { BlockService } from '../services/blockService';
-import { ChainConfig, defaultChains } from '../config/chains';
+import { ReorgService } from '../services/reorgService';
+import { ProviderService } from '../services/providerService';
+import { EndpointHealth } from '../services/failoverProvider';
+import { ChainConfig, chainConfigFromRow, loadChainConfig, loadChainRegistry } from '../config/chains';
 import { DataValidator } from '../validators/dataValidator';
+import { GapRepairWorker } from '../validators/gapRepairWorker';
+import { PositionReconciler } from '../validators/positionReconciler';
+import { ReindexService } from '../services/reindexService';
+import { JobScheduler } from '../services/jobScheduler';
+import { FinalityTag } from '../services/finality';
+import { FailoverProvider } from '../services/failoverProvider';
+import { fetchGenesisTs } from '../analytics/amplifier';
+
+// Columns read for every chain, at boot and on reload
+const CHAIN_COLUMNS = `chain_id, chain_name, rpc_url, rpc_urls, 
+          xen_contract_address, xburn_minter_contract_address, xburn_nft_contract_address,
+          start_block, last_indexed_block, confirmations, finality_tag, blocks_per_batch, enabled`;
+
+/**
+ * Fields of a chain configuration that require restarting its listener when they change
+ * @param config Chain configuration
+ * @returns Comparable key
+ */
+function listenerKey(config: ChainConfig): string {
+  return JSON.stringify([
+    config.rpcUrls,
+    config.xenContractAddress,
+    config.xburnMinterAddress,
+    config.xburnNftAddress,
+    config.confirmations,
+    config.finalityTag
+  ]);
+}
+
+/**
+ * Chain settings that can be changed after a chain is added
+ */
+export interface ChainUpdate {
+  name?: string;
+  rpcUrls?: string[];
+  xenContractAddress?: string;
+  xburnMinterAddress?: string;
+  xburnNftAddress?: string;
+  confirmations?: number;
+  finalityTag?: FinalityTag | null;
+  blocksPerBatch?: number;
+}
+
+// Column written for each ChainUpdate field
+const CHAIN_UPDATE_COLUMNS: Record<keyof ChainUpdate, string> = {
+  name: 'chain_name',
+  rpcUrls: 'rpc_urls',
+  xenContractAddress: 'xen_contract_address',
+  xburnMinterAddress: 'xburn_minter_contract_address',
+  xburnNftAddress: 'xburn_nft_contract_address',
+  confirmations: 'confirmations',
+  finalityTag: 'finality_tag',
+  blocksPerBatch: 'blocks_per_batch'
+};
+
+/**
+ * Assignment of a registry value on startup that keeps the stored value once an admin changed the column
+ * @param column chains column
+ * @param param Query parameter holding the registry value
+ * @param overrides Columns an admin changed on the chain
+ * @returns SQL assignment
+ */
+function registryValue(column: string, param: string, overrides: string[]): string {
+  return `${column} = ${overrides.includes(column) ? `chains.${column}` : param}`;
+}
 
 /**
  * ChainManager handles the initialization and coordination of blockchain indexing
@@ -13,8 +81,16 @@ export class ChainManager {
   private chainConfigs: Map<number, ChainConfig> = new Map();
   private eventListeners: Map<number, EventListener> = new Map();
   private eventProcessors: Map<number, EventProcessor> = new Map();
+  private providerService: ProviderService;
   private blockService: BlockService;
+  private reorgService: ReorgService;
   private dataValidator: DataValidator | null = null;
+  private reindexService: ReindexService;
+  private gapRepairWorker: GapRepairWorker | null = null;
+  private positionReconciler: PositionReconciler;
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private reloadQueue: Promise<void> = Promise.resolve();
+  private state: 'stopped' | 'running' | 'paused' = 'stopped';
   
   /**
    * Create a new ChainManager instance
@@ -22,7 +98,11 @@ export class ChainManager {
    */
   constructor(db: Pool) {
     this.db = db;
-    this.blockService = new BlockService(db);
+    this.providerService = new ProviderService();
+    this.blockService = new BlockService(db, this.providerService);
+    this.reorgService = new ReorgService(db);
+    this.reindexService = new ReindexService(db, this.reorgService);
+    this.positionReconciler = new PositionReconciler(db, this.providerService, process.env.RECONCILE_AUTO_FIX !== 'false');
   }
   
   /**
@@ -34,12 +114,8 @@ export class ChainManager {
       const chains = await this.loadChainConfigurations();
       console.log(`Loaded ${chains.length} chain configurations`);
       
-      // Initialize block service providers
-      this.blockService.initializeProviders(chains);
-      
       // Initialize data validator
-      // Commented out until implemented
-      // this.dataValidator = new DataValidator(this.db, chains);
+      this.dataValidator = new DataValidator(this.db, this.providerService);
       
       // Initialize listeners and processors for each chain
       for (const chain of chains) {
@@ -50,9 +126,13 @@ export class ChainManager {
         }
       }
       
-      // Schedule validation tasks
-      // Commented out until implemented
-      // this.scheduleValidationTasks();
+      // Re-scans block ranges that were never covered; run by the gap-repair job
+      this.gapRepairWorker = new GapRepairWorker(this.db, this.dataValidator, this.reindexService);
+      
+      // Pick up chains added, disabled or re-pointed in the database
+      this.state = 'running';
+      const reloadInterval = parseInt(process.env.CHAIN_RELOAD_INTERVAL_MS || '30000');
+      this.reloadTimer = setInterval(() => this.reloadChains(), reloadInterval);
       
       console.log('Chain manager initialized successfully');
     } catch (error) {
@@ -62,62 +142,70 @@ export class ChainManager {
   }
   
   /**
-   * Load chain configurations from the database
+   * Sync the chain registry into the database and load every chain from it
    * @returns Array of chain configurations
    */
   private async loadChainConfigurations(): Promise<ChainConfig[]> {
+    const registry = loadChainRegistry();
+    
     try {
-      // Try to load from database
+      const stored = await this.db.query(`SELECT chain_id, admin_overrides FROM chains`);
+      const adminOverrides: Map<number, string[]> = new Map(stored.rows.map(row => [Number(row.chain_id), row.admin_overrides || []]));
+      
+      // Registry values win over stored ones, except columns an admin changed; checkpoints,
+      // working batch sizes and the enabled flag are kept
+      for (const chain of registry) {
+        const overrides = adminOverrides.get(chain.chainId) || [];
+        
+        await this.db.query(
+          `INSERT INTO chains 
+           (chain_id, chain_name, rpc_url, rpc_urls, 
+            xen_contract_address, xburn_minter_contract_address, xburn_nft_contract_address, 
+            start_block, last_indexed_block, confirmations, finality_tag, blocks_per_batch, enabled, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8, $9, $10, $11, $12, NOW(), NOW())
+           ON CONFLICT (chain_id) 
+           DO UPDATE SET 
+             ${registryValue('chain_name', '$2', overrides)},
+             rpc_url = ${overrides.includes('rpc_urls') ? 'chains.rpc_url' : '$3'}, 
+             ${registryValue('rpc_urls', '$4', overrides)}, 
+             xen_genesis_ts = ${overrides.includes('xen_contract_address')
+               ? 'chains.xen_genesis_ts'
+               : 'CASE WHEN LOWER(chains.xen_contract_address) = LOWER($5) THEN chains.xen_genesis_ts END'},
+             ${registryValue('xen_contract_address', '$5', overrides)},
+             ${registryValue('xburn_minter_contract_address', '$6', overrides)},
+             ${registryValue('xburn_nft_contract_address', '$7', overrides)},
+             start_block = $8,
+             last_indexed_block = GREATEST(chains.last_indexed_block, $8),
+             ${registryValue('confirmations', '$9', overrides)},
+             ${registryValue('finality_tag', '$10', overrides)},
+             blocks_per_batch = COALESCE(chains.blocks_per_batch, $11),
+             updated_at = NOW()`,
+          [
+            chain.chainId,
+            chain.name,
+            chain.rpcUrls[0],
+            chain.rpcUrls,
+            chain.xenContractAddress,
+            chain.xburnMinterAddress,
+            chain.xburnNftAddress,
+            chain.startBlock,
+            chain.confirmations,
+            chain.finalityTag,
+            chain.blocksPerBatch,
+            chain.enabled
+          ]
+        );
+      }
+      
+      // Chains added at runtime are not in the registry but are indexed too
       const result = await this.db.query(
-        `SELECT 
-          chain_id, chain_name, rpc_url, 
-          xen_contract_address, xburn_minter_contract_address, xburn_nft_contract_address,
-          last_indexed_block
+        `SELECT ${CHAIN_COLUMNS}
          FROM chains 
          WHERE chain_id IS NOT NULL`
       );
       
-      // If no chains in database, use default configs
-      if (result.rows.length === 0) {
-        console.log('No chains found in database, using default configurations');
-        
-        // Insert default chains
-        for (const chain of defaultChains) {
-          await this.db.query(
-            `INSERT INTO chains 
-             (chain_id, chain_name, rpc_url, 
-              xen_contract_address, xburn_minter_contract_address, xburn_nft_contract_address, 
-              last_indexed_block, created_at, updated_at)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
-             ON CONFLICT (chain_id) DO NOTHING`,
-            [
-              chain.chainId,
-              chain.name,
-              chain.rpcUrl,
-              chain.xenContractAddress,
-              chain.xburnMinterAddress,
-              chain.xburnNftAddress,
-              chain.startBlock
-            ]
-          );
-        }
-        
-        // Return default chains
-        return defaultChains;
-      }
-      
       // Map database results to ChainConfig objects
-      const chains: ChainConfig[] = result.rows.map(row => ({
-        chainId: row.chain_id,
-        name: row.chain_name,
-        rpcUrl: row.rpc_url,
-        xenContractAddress: row.xen_contract_address,
-        xburnMinterAddress: row.xburn_minter_contract_address,
-        xburnNftAddress: row.xburn_nft_contract_address,
-        startBlock: row.last_indexed_block || defaultChains[0].startBlock,
-        blocksPerBatch: 2000, // Default value or could be stored in DB
-        enabled: true // All chains from DB are considered enabled
-      }));
+      const chains: ChainConfig[] = result.rows.map(chainConfigFromRow);
       
       // Store in memory
       chains.forEach(chain => {
@@ -127,9 +215,9 @@ export class ChainManager {
       return chains;
     } catch (error) {
       console.error(`Error loading chain configurations: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      // Fall back to default chains
-      console.log('Falling back to default chain configurations');
-      return defaultChains;
+      // Fall back to the registry
+      console.log('Falling back to the chain registry');
+      return registry;
     }
   }
   
@@ -141,12 +229,16 @@ export class ChainManager {
     try {
       console.log(`Initializing chain ${config.name} (${config.chainId})`);
       
-      // Create event listener
-      const eventListener = new EventListener(config);
+      // Create the chain's shared provider and event listener
+      const provider = this.providerService.setProvider(config);
+      await this.loadGenesisTs(config, provider);
+      
+      const eventListener = new EventListener(config, provider, this.blockService, this.reorgService);
       this.eventListeners.set(config.chainId, eventListener);
       
       // Create event processor
-      const eventProcessor = new EventProcessor(this.db, eventListener, this.blockService);
+      const eventProcessor = new EventProcessor(this.db, this.reorgService);
+      eventProcessor.attach(eventListener);
       this.eventProcessors.set(config.chainId, eventProcessor);
       
       // Start listening with 5 minute interval
@@ -155,10 +247,38 @@ export class ChainManager {
       console.log(`Chain ${config.name} (${config.chainId}) initialized successfully`);
     } catch (error) {
       console.error(`Error initializing chain ${config.name} (${config.chainId}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+      
+      // Leave nothing half-started so a later reload can retry
+      await this.stopChain(config.chainId);
       throw error;
     }
   }
   
+  /**
+   * Read and store the XEN genesis timestamp of a chain unless it is already known.
+   * A failure is logged and retried the next time the chain starts.
+   * @param config Chain configuration
+   * @param provider Provider for the chain
+   */
+  private async loadGenesisTs(config: ChainConfig, provider: FailoverProvider): Promise<void> {
+    try {
+      const result = await this.db.query(`SELECT xen_genesis_ts FROM chains WHERE chain_id = $1`, [config.chainId]);
+      if (result.rows.length === 0 || result.rows[0].xen_genesis_ts !== null) {
+        return;
+      }
+      
+      const genesisTs = await fetchGenesisTs(provider, config.xenContractAddress);
+      await this.db.query(
+        `UPDATE chains SET xen_genesis_ts = $2, updated_at = NOW() WHERE chain_id = $1`,
+        [config.chainId, genesisTs]
+      );
+      
+      console.log(`XEN genesis for chain ${config.chainId} is ${new Date(genesisTs * 1000).toISOString()}`);
+    } catch (error) {
+      console.error(`Error reading XEN genesis for chain ${config.chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
   /**
    * Add a new chain to the system
    * @param config Chain configuration
@@ -167,7 +287,7 @@ export class ChainManager {
   async addChain(config: ChainConfig): Promise<boolean> {
     try {
       // Validate configuration
-      if (!config.chainId || !config.name || !config.rpcUrl || 
+      if (!config.chainId || !config.name || !config.rpcUrls || config.rpcUrls.length === 0 || 
           !config.xenContractAddress || !config.xburnMinterAddress || !config.xburnNftAddress) {
         throw new Error('Invalid chain configuration');
       }
@@ -175,35 +295,44 @@ export class ChainManager {
       // Add to database
       await this.db.query(
         `INSERT INTO chains 
-         (chain_id, chain_name, rpc_url, 
+         (chain_id, chain_name, rpc_url, rpc_urls, 
           xen_contract_address, xburn_minter_contract_address, xburn_nft_contract_address, 
-          last_indexed_block, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+          start_block, last_indexed_block, confirmations, finality_tag, blocks_per_batch, enabled, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8, $9, $10, $11, $12, NOW(), NOW())
          ON CONFLICT (chain_id) 
          DO UPDATE SET 
            chain_name = $2,
            rpc_url = $3, 
-           xen_contract_address = $4,
-           xburn_minter_contract_address = $5,
-           xburn_nft_contract_address = $6,
-           last_indexed_block = $7,
+           rpc_urls = $4, 
+           xen_contract_address = $5,
+           xen_genesis_ts = CASE WHEN LOWER(chains.xen_contract_address) = LOWER($5) THEN chains.xen_genesis_ts END,
+           xburn_minter_contract_address = $6,
+           xburn_nft_contract_address = $7,
+           start_block = $8,
+           last_indexed_block = $8,
+           confirmations = $9,
+           finality_tag = $10,
+           blocks_per_batch = $11,
+           enabled = $12,
            updated_at = NOW()`,
         [
           config.chainId,
           config.name,
-          config.rpcUrl,
+          config.rpcUrls[0],
+          config.rpcUrls,
           config.xenContractAddress,
           config.xburnMinterAddress,
           config.xburnNftAddress,
-          config.startBlock
+          config.startBlock,
+          config.confirmations,
+          config.finalityTag,
+          config.blocksPerBatch,
+          config.enabled
         ]
       );
       
-      // If enabled, initialize chain
-      if (config.enabled) {
-        this.chainConfigs.set(config.chainId, config);
-        await this.initializeChain(config);
-      }
+      // Start, restart or stop its listener
+      await this.reloadChains();
       
       return true;
     } catch (error) {
@@ -221,43 +350,389 @@ export class ChainManager {
     try {
       // Update database
       await this.db.query(
-        `UPDATE chains SET disabled = true, updated_at = NOW() WHERE chain_id = $1`,
+        `UPDATE chains SET enabled = false, updated_at = NOW() WHERE chain_id = $1`,
         [chainId]
       );
       
-      // Remove from active listeners
-      const listener = this.eventListeners.get(chainId);
-      if (listener) {
-        // No built-in stop method, but we would implement one in a real system
-        // For now we just remove it from the map
-        this.eventListeners.delete(chainId);
-        this.eventProcessors.delete(chainId);
+      // Stop the listener and release its provider
+      await this.reloadChains();
+      
+      return true;
+    } catch (error) {
+      console.error(`Error disabling chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  }
+  
+  /**
+   * Enable a chain
+   * @param chainId Chain ID to enable
+   * @returns Success status
+   */
+  async enableChain(chainId: number): Promise<boolean> {
+    try {
+      await this.db.query(
+        `UPDATE chains SET enabled = true, updated_at = NOW() WHERE chain_id = $1`,
+        [chainId]
+      );
+      
+      // Start its listener
+      await this.reloadChains();
+      
+      return true;
+    } catch (error) {
+      console.error(`Error enabling chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  }
+  
+  /**
+   * Update a chain's settings; the listener is restarted if it depends on them
+   * @param chainId Chain ID to update
+   * @param update Settings to change
+   * @returns Success status
+   */
+  async updateChain(chainId: number, update: ChainUpdate): Promise<boolean> {
+    try {
+      const fields = Object.keys(update).filter(field => update[field] !== undefined) as (keyof ChainUpdate)[];
+      if (fields.length === 0) {
+        return true;
+      }
+      
+      const assignments = fields.map((field, index) => `${CHAIN_UPDATE_COLUMNS[field]} = $${index + 2}`);
+      const params: unknown[] = [chainId, ...fields.map(field => update[field])];
+      
+      // Keep the legacy single-URL column in step with the endpoint list
+      if (update.rpcUrls) {
+        assignments.push(`rpc_url = $${params.length + 1}`);
+        params.push(update.rpcUrls[0]);
       }
       
-      // Update memory map
-      const config = this.chainConfigs.get(chainId);
-      if (config) {
-        config.enabled = false;
-        this.chainConfigs.set(chainId, config);
+      // The genesis timestamp is read again from the new XEN contract
+      if (update.xenContractAddress) {
+        assignments.push('xen_genesis_ts = NULL');
       }
       
+      // The registry no longer overwrites these columns on startup
+      const stored = await this.db.query(`SELECT admin_overrides FROM chains WHERE chain_id = $1`, [chainId]);
+      const overrides = new Set<string>(stored.rows.length > 0 ? stored.rows[0].admin_overrides || [] : []);
+      fields.forEach(field => overrides.add(CHAIN_UPDATE_COLUMNS[field]));
+      assignments.push(`admin_overrides = $${params.length + 1}`);
+      params.push([...overrides]);
+      
+      await this.db.query(
+        `UPDATE chains SET ${assignments.join(', ')}, updated_at = NOW() WHERE chain_id = $1`,
+        params
+      );
+      
+      await this.reloadChains();
+      
       return true;
     } catch (error) {
-      console.error(`Error disabling chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`Error updating chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       return false;
     }
   }
   
   /**
-   * Schedule validation tasks
+   * Move a chain's checkpoint. The listener is stopped first and restarts from the new block.
+   * Moving forward leaves the skipped blocks unscanned, so the gap-repair job indexes them later.
+   * @param chainId Chain ID
+   * @param block New last indexed block
+   * @returns Success status
    */
-  private scheduleValidationTasks(): void {
-    if (!this.dataValidator) {
-      console.log('Data validator not initialized, skipping validation tasks');
+  async resetCheckpoint(chainId: number, block: number): Promise<boolean> {
+    try {
+      // Queue behind reloads so a reload cannot restart the listener before the checkpoint moves
+      const reset = this.reloadQueue.then(async () => {
+        await this.stopChain(chainId);
+        await this.db.query(
+          `UPDATE chains SET last_indexed_block = $2, updated_at = NOW() WHERE chain_id = $1`,
+          [chainId, block]
+        );
+      });
+      this.reloadQueue = reset.catch(() => undefined);
+      await reset;
+      
+      // Start the listener again if the chain is enabled
+      await this.reloadChains();
+      
+      return true;
+    } catch (error) {
+      console.error(`Error resetting checkpoint of chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  }
+  
+  /**
+   * Queue a block range for the reindex-queue job
+   * @param chainId Chain ID
+   * @param fromBlock First block to reindex
+   * @param toBlock Last block to reindex
+   * @returns ID of the queued reindex job
+   */
+  async enqueueReindex(chainId: number, fromBlock: number, toBlock: number): Promise<number> {
+    return this.reindexService.enqueue(chainId, fromBlock, toBlock);
+  }
+  
+  /**
+   * Apply changes to the chains table: start listeners for added or enabled chains, stop them
+   * for disabled or deleted ones, and restart them when their RPC URLs, contracts or confirmation
+   * depth change. Reloads run one at a time and are skipped while the manager is paused or stopped.
+   */
+  reloadChains(): Promise<void> {
+    this.reloadQueue = this.reloadQueue.then(() => this.applyChainChanges());
+    return this.reloadQueue;
+  }
+  
+  /**
+   * Compare the chains table with the running listeners and reconcile them
+   */
+  private async applyChainChanges(): Promise<void> {
+    if (this.state !== 'running') {
+      return;
+    }
+    
+    try {
+      const result = await this.db.query(`SELECT ${CHAIN_COLUMNS} FROM chains WHERE chain_id IS NOT NULL`);
+      const rows: ChainConfig[] = result.rows.map(chainConfigFromRow);
+      const seen = new Set(rows.map(chain => chain.chainId));
+      
+      // Chains deleted from the table
+      for (const chainId of [...this.eventListeners.keys()]) {
+        if (!seen.has(chainId)) {
+          console.log(`Chain ${chainId} was removed, stopping its listener`);
+          await this.stopChain(chainId);
+          this.chainConfigs.delete(chainId);
+        }
+      }
+      
+      for (const chain of rows) {
+        const running = this.eventListeners.has(chain.chainId);
+        const current = this.chainConfigs.get(chain.chainId);
+        
+        try {
+          if (!chain.enabled) {
+            if (running) {
+              console.log(`Chain ${chain.name} (${chain.chainId}) was disabled, stopping its listener`);
+              await this.stopChain(chain.chainId);
+            }
+          } else if (!running) {
+            console.log(`Chain ${chain.name} (${chain.chainId}) was enabled, starting its listener`);
+            await this.initializeChain(chain);
+          } else if (current && listenerKey(current) !== listenerKey(chain)) {
+            console.log(`Configuration of chain ${chain.name} (${chain.chainId}) changed, restarting its listener`);
+            await this.stopChain(chain.chainId);
+            
+            // Resume from the checkpoint committed by the stopped listener
+            await this.initializeChain(await loadChainConfig(this.db, chain.chainId));
+          }
+          
+          this.chainConfigs.set(chain.chainId, chain);
+        } catch (error) {
+          console.error(`Error reloading chain ${chain.name} (${chain.chainId}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    } catch (error) {
+      console.error(`Error reloading chain configurations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  /**
+   * Stop a chain's listener after its in-flight batch and release its provider
+   * @param chainId Chain ID to stop
+   */
+  async stopChain(chainId: number): Promise<void> {
+    const listener = this.eventListeners.get(chainId);
+    
+    if (listener) {
+      await listener.stop();
+      listener.removeAllListeners();
+      this.eventListeners.delete(chainId);
+      this.eventProcessors.delete(chainId);
+    }
+    
+    this.providerService.removeProvider(chainId);
+  }
+  
+  /**
+   * Pause a chain's listener after its in-flight batch
+   * @param chainId Chain ID to pause
+   * @returns True if the chain has a listener
+   */
+  async pauseChain(chainId: number): Promise<boolean> {
+    const listener = this.eventListeners.get(chainId);
+    
+    if (!listener) {
+      return false;
+    }
+    
+    await listener.pause();
+    return true;
+  }
+  
+  /**
+   * Resume a paused chain listener
+   * @param chainId Chain ID to resume
+   * @returns True if the chain has a listener
+   */
+  resumeChain(chainId: number): boolean {
+    const listener = this.eventListeners.get(chainId);
+    
+    if (!listener) {
+      return false;
+    }
+    
+    listener.resume();
+    return true;
+  }
+  
+  /**
+   * Stop every chain, waiting for in-flight batches to commit
+   */
+  async stop(): Promise<void> {
+    this.state = 'stopped';
+    
+    if (this.reloadTimer) {
+      clearInterval(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    await this.reloadQueue;
+    
+    if (this.gapRepairWorker) {
+      await this.gapRepairWorker.stop();
+    }
+    
+    const chainIds = [...this.eventListeners.keys()];
+    await Promise.all(chainIds.map(chainId => this.stopChain(chainId)));
+    console.log('Chain manager stopped');
+  }
+  
+  /**
+   * Pause every chain and configuration reloads, waiting for in-flight batches to commit
+   */
+  async pause(): Promise<void> {
+    if (this.state !== 'running') {
       return;
     }
     
-    // This would be implemented in a real system using node-cron or similar
-    console.log('Validation tasks would be scheduled here in a real implementation');
+    this.state = 'paused';
+    await this.reloadQueue;
+    
+    const chainIds = [...this.eventListeners.keys()];
+    await Promise.all(chainIds.map(chainId => this.pauseChain(chainId)));
+  }
+  
+  /**
+   * Resume every paused chain
+   */
+  resume(): void {
+    if (this.state !== 'paused') {
+      return;
+    }
+    
+    this.state = 'running';
+    
+    for (const chainId of this.eventListeners.keys()) {
+      this.resumeChain(chainId);
+    }
+    
+    // Apply changes made while paused
+    this.reloadChains();
+  }
+  
+  /**
+   * Get RPC endpoint health for every active chain
+   * @returns Endpoint health keyed by chain ID
+   */
+  getRpcHealth(): Record<number, EndpointHealth[]> {
+    return this.providerService.getHealth();
+  }
+  
+  /**
+   * Register the validation, reconciliation and gap repair jobs with the job scheduler.
+   * Must be called after initialize.
+   * @param scheduler Job scheduler
+   */
+  registerJobs(scheduler: JobScheduler): void {
+    if (!this.dataValidator || !this.gapRepairWorker) {
+      throw new Error('Chain manager must be initialized before registering jobs');
+    }
+    
+    const dataValidator = this.dataValidator;
+    const gapRepairWorker = this.gapRepairWorker;
+    
+    scheduler.register({
+      name: 'reconcile-new-positions',
+      schedule: '*/10 * * * *',
+      description: 'Fill amplifier and reward values of new positions from XBurnNFT.getLockDetails',
+      run: () => this.runForActiveChains(async chainId => {
+        await this.positionReconciler.reconcileChain(chainId, { onlyUnfilled: true });
+      })
+    });
+    
+    scheduler.register({
+      name: 'reconcile-positions',
+      schedule: '0 1 * * *',
+      description: 'Compare every position with XBurnNFT.getLockDetails and record drift',
+      run: () => this.runForActiveChains(async chainId => {
+        await this.positionReconciler.reconcileChain(chainId);
+      })
+    });
+    
+    scheduler.register({
+      name: 'validate-daily',
+      schedule: '30 1 * * *',
+      description: 'Daily data validation',
+      run: () => this.runForActiveChains(chainId => dataValidator.validateDailyData(chainId))
+    });
+    
+    scheduler.register({
+      name: 'reconcile-weekly',
+      schedule: '0 3 * * 0',
+      description: 'Weekly data integrity hash',
+      run: () => this.runForActiveChains(chainId => dataValidator.runWeeklyReconciliation(chainId))
+    });
+    
+    scheduler.register({
+      name: 'reindex-queue',
+      schedule: '* * * * *',
+      description: 'Run reindex jobs queued through the admin API',
+      run: async () => {
+        const processed = await this.reindexService.runQueued(() => this.state === 'stopped');
+        return `Ran ${processed} queued reindex jobs`;
+      }
+    });
+    
+    scheduler.register({
+      name: 'gap-repair',
+      schedule: '15 * * * *',
+      description: 'Detect and re-scan block ranges that were never indexed',
+      run: () => gapRepairWorker.run()
+    });
+  }
+  
+  /**
+   * Run a task for every active chain, continuing past failures
+   * @param task Task to run per chain
+   * @returns Summary of the chains processed
+   */
+  private async runForActiveChains(task: (chainId: number) => Promise<void>): Promise<string> {
+    const chainIds = [...this.eventListeners.keys()];
+    const failures: string[] = [];
+    
+    for (const chainId of chainIds) {
+      try {
+        await task(chainId);
+      } catch (error) {
+        failures.push(`chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    
+    if (failures.length > 0) {
+      throw new Error(`Failed for ${failures.length} of ${chainIds.length} chains (${failures.join('; ')})`);
+    }
+    
+    return `Processed chains ${chainIds.join(', ') || 'none'}`;
   }
-} 
\ No newline at end of file
+}
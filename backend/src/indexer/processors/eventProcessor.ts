@@ -1,308 +1,728 @@
-import { Pool } from 'pg';
-import { EventListener } from '../listeners/eventListener';
-import { BlockService } from '../services/blockService';
+import { Pool, PoolClient } from 'pg';
+import { EventBatch, EventListener, ListenerError } from '../listeners/eventListener';
+import { ReorgService } from '../services/reorgService';
+import { FinalityThresholds } from '../services/finality';
+import { expectedBurnSplit } from '../config/chains';
+import { refreshRollups } from '../analytics/rollups';
+import {
+  AmountEventData,
+  BurnLockCreatedEventData,
+  BurnNftMintedEventData,
+  DecodedEvent,
+  EmergencyEndEventData,
+  LockEventData,
+  TransferEventData,
+  XburnClaimedEventData
+} from '../decoders/logDecoder';
+
+/**
+ * Where a burn of XEN came from: the XBurnMinter, another protocol's contract, or XEN itself
+ */
+export type BurnSource = 'xburn' | 'protocol' | 'direct';
+
+export const BURN_SOURCES: BurnSource[] = ['xburn', 'protocol', 'direct'];
 
 /**
  * EventProcessor handles processing and storing blockchain events from the EventListener
  */
 export class EventProcessor {
   private db: Pool;
-  private eventListener: EventListener;
-  private blockService: BlockService;
+  private reorgService: ReorgService;
   
   /**
    * Create a new EventProcessor instance
    * @param db Database pool
-   * @param eventListener EventListener instance
-   * @param blockService BlockService instance
+   * @param reorgService ReorgService instance
    */
-  constructor(db: Pool, eventListener: EventListener, blockService: BlockService) {
+  constructor(db: Pool, reorgService: ReorgService) {
     this.db = db;
-    this.eventListener = eventListener;
-    this.blockService = blockService;
-    
-    // Set up event handlers
-    this.setupEventHandlers();
+    this.reorgService = reorgService;
   }
   
   /**
-   * Set up event handlers for the event listener
+   * Store the batches of an event listener
+   * @param eventListener EventListener instance
    */
-  private setupEventHandlers(): void {
-    this.eventListener.on('burnEvent', this.handleBurnEvent.bind(this));
-    this.eventListener.on('xenBurnedEvent', this.handleXenBurnedEvent.bind(this));
-    this.eventListener.on('burnNftMintedEvent', this.handleBurnNftMintedEvent.bind(this));
-    this.eventListener.on('xburnClaimedEvent', this.handleXburnClaimedEvent.bind(this));
-    this.eventListener.on('blockProcessed', this.handleBlockProcessed.bind(this));
-    this.eventListener.on('error', this.handleError.bind(this));
+  attach(eventListener: EventListener): void {
+    eventListener.setBatchHandler(this.processBatch.bind(this));
+    eventListener.on('error', this.handleError.bind(this));
   }
   
   /**
-   * Handle direct XEN burn events (transfers to address(0))
-   * @param event Burn event data
+   * Take the per-chain write lock, serializing batches, tip blocks and replays of a chain
+   * @param client Database client inside an open transaction
+   * @param chainId Chain ID
+   */
+  async lockChain(client: PoolClient, chainId: number): Promise<void> {
+    await client.query(`SELECT chain_id FROM chains WHERE chain_id = $1 FOR UPDATE`, [chainId]);
+  }
+  
+  /**
+   * Apply a batch of events in (block, logIndex) order inside a single database transaction.
+   * The block hash, the scanned range and, for regular batches, the chain checkpoint are written
+   * in the same transaction, so a crash either keeps the whole range or none of it.
+   * @param batch Batch of decoded events
    */
-  private async handleBurnEvent(event: any): Promise<void> {
+  async processBatch(batch: EventBatch): Promise<void> {
+    const client = await this.db.connect();
+    
     try {
-      const client = await this.db.connect();
+      await client.query('BEGIN');
+      await this.lockChain(client, batch.chainId);
+      
+      for (const event of batch.events) {
+        await this.storeRawLog(client, event);
+        await this.applyEvent(client, event);
+      }
       
-      try {
-        await client.query('BEGIN');
-        
-        // Insert into burn_events table
+      // Recompute the rollup buckets the batch touched before its events become visible
+      if (batch.events.length > 0) {
+        const timestamps = batch.events.map(event => event.data.blockTimestamp.getTime());
+        await refreshRollups(client, batch.chainId, {
+          from: new Date(Math.min(...timestamps)),
+          to: new Date(Math.max(...timestamps))
+        });
+      }
+      
+      if (batch.lastBlock) {
+        await this.reorgService.recordBlock(batch.chainId, batch.lastBlock, client, !batch.advanceCheckpoint);
+      }
+      
+      // Record that the range was scanned, whether or not it contained events
+      await client.query(
+        `INSERT INTO block_coverage (chain_id, from_block, to_block, scanned_at)
+         VALUES ($1, $2, $3, NOW())`,
+        [batch.chainId, batch.fromBlock, batch.toBlock]
+      );
+      
+      // Tip rows above this batch have not been checked against reorgs yet, so they stay pending
+      if (batch.finality) {
+        await this.promoteFinality(client, batch.chainId, {
+          safeBlock: Math.min(batch.finality.safeBlock, batch.toBlock),
+          finalBlock: Math.min(batch.finality.finalBlock, batch.toBlock)
+        });
+      }
+      
+      if (batch.advanceCheckpoint) {
         await client.query(
-          `INSERT INTO burn_events 
-           (chain_id, transaction_hash, block_number, block_timestamp, user_address, 
-            xen_amount_direct, contract_address, event_type)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-           ON CONFLICT (transaction_hash, event_type) DO NOTHING`,
-          [
-            event.chainId,
-            event.transactionHash,
-            event.blockNumber,
-            event.blockTimestamp,
-            event.from.toLowerCase(),
-            event.value,
-            this.eventListener.chainConfig.xenContractAddress.toLowerCase(),
-            'Transfer'
-          ]
+          `UPDATE chains
+           SET last_indexed_block = $1, blocks_per_batch = $2, updated_at = NOW()
+           WHERE chain_id = $3`,
+          [batch.toBlock, batch.blocksPerBatch, batch.chainId]
         );
-        
-        await client.query('COMMIT');
-        console.log(`Processed direct burn transaction ${event.transactionHash}`);
-      } catch (error) {
-        await client.query('ROLLBACK');
-        console.error(`Error in handleBurnEvent transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        throw error;
-      } finally {
-        client.release();
+      }
+      
+      if (batch.writeCheckpoint) {
+        await batch.writeCheckpoint(client);
+      }
+      
+      await client.query('COMMIT');
+      
+      if (batch.advanceCheckpoint) {
+        console.log(`Updated indexer state for chain ${batch.chainId} to block ${batch.toBlock}`);
       }
     } catch (error) {
-      console.error(`Error handling burn event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      await client.query('ROLLBACK');
+      console.error(`Error processing blocks ${batch.fromBlock} to ${batch.toBlock} for chain ${batch.chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+  
+  /**
+   * Promote rows that reached the chain's safe or final block. Rows are never demoted here;
+   * a reorg deletes them instead.
+   * @param client Database client inside an open transaction
+   * @param chainId Chain ID
+   * @param thresholds Current safe and final blocks
+   */
+  async promoteFinality(client: PoolClient, chainId: number, thresholds: FinalityThresholds): Promise<void> {
+    await client.query(
+      `UPDATE burn_events
+       SET finality = CASE WHEN block_number <= $3 THEN 'final' ELSE 'safe' END
+       WHERE chain_id = $1 AND finality <> 'final'
+         AND block_number <= $2
+         AND (finality = 'pending' OR block_number <= $3)`,
+      [chainId, thresholds.safeBlock, thresholds.finalBlock]
+    );
+    
+    // A position settles with the last event that changed it
+    await client.query(
+      `UPDATE burn_positions
+       SET finality = CASE WHEN GREATEST(mint_block_number, COALESCE(claimed_block_number, 0)) <= $3 THEN 'final' ELSE 'safe' END
+       WHERE chain_id = $1 AND finality <> 'final'
+         AND GREATEST(mint_block_number, COALESCE(claimed_block_number, 0)) <= $2
+         AND (finality = 'pending' OR GREATEST(mint_block_number, COALESCE(claimed_block_number, 0)) <= $3)`,
+      [chainId, thresholds.safeBlock, thresholds.finalBlock]
+    );
+  }
+  
+  /**
+   * Persist the raw log behind a decoded event so it can be replayed without RPC access
+   * @param client Database client inside an open transaction
+   * @param event Decoded event
+   */
+  private async storeRawLog(client: PoolClient, event: DecodedEvent): Promise<void> {
+    const { chainId, blockTimestamp, rawLog } = event.data;
+    
+    await client.query(
+      `INSERT INTO raw_logs
+       (chain_id, block_number, block_hash, block_timestamp, transaction_hash,
+        transaction_index, log_index, address, topics, data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (chain_id, transaction_hash, log_index)
+       DO UPDATE SET block_number = $2, block_hash = $3, block_timestamp = $4,
+         transaction_index = $6, address = $8, topics = $9, data = $10`,
+      [
+        chainId,
+        rawLog.blockNumber,
+        rawLog.blockHash,
+        blockTimestamp,
+        rawLog.transactionHash,
+        rawLog.transactionIndex,
+        rawLog.logIndex,
+        rawLog.address.toLowerCase(),
+        rawLog.topics,
+        rawLog.data
+      ]
+    );
+  }
+  
+  /**
+   * Apply a single decoded event
+   * @param client Database client inside an open transaction
+   * @param event Decoded event
+   */
+  async applyEvent(client: PoolClient, event: DecodedEvent): Promise<void> {
+    switch (event.name) {
+      case 'burnEvent':
+        return this.handleBurnEvent(client, event.data);
+      case 'xenAccumulatedEvent':
+        return this.handleXenAccumulatedEvent(client, event.data);
+      case 'xenBurnedEvent':
+        return this.handleXenBurnedEvent(client, event.data);
+      case 'burnNftMintedEvent':
+        return this.handleBurnNftMintedEvent(client, event.data);
+      case 'xburnClaimedEvent':
+        return this.handleXburnClaimedEvent(client, event.data);
+      case 'xburnBurnedEvent':
+        return this.handleXburnBurnedEvent(client, event.data);
+      case 'emergencyEndEvent':
+        return this.handleEmergencyEndEvent(client, event.data);
+      case 'burnLockCreatedEvent':
+        return this.handleBurnLockCreatedEvent(client, event.data);
+      case 'lockClaimedEvent':
+        return this.handleLockEvent(client, 'LockClaimed', event.data);
+      case 'lockBurnedEvent':
+        return this.handleLockEvent(client, 'LockBurned', event.data);
+      default:
+        console.warn(`Ignoring unknown event ${(event as { name: string }).name}`);
+    }
+  }
+  
+  /**
+   * Handle direct XEN burn events (transfers to address(0))
+   * @param client Database client inside an open transaction
+   * @param event Burn event data
+   */
+  private async handleBurnEvent(client: PoolClient, event: TransferEventData): Promise<void> {
+    // The caller is only looked up for burns without an XENBurned event; those are linked as xburn
+    // by handleXenBurnedEvent. Replay passes the caller kept in burn_callers.
+    const burnSource = event.caller === undefined
+      ? null
+      : event.caller === event.address.toLowerCase() ? 'direct' : 'protocol';
+    
+    // Insert into burn_events table, classifying rows stored before the caller was known
+    await client.query(
+      `INSERT INTO burn_events
+       (chain_id, transaction_hash, block_number, block_timestamp, user_address,
+        xen_amount_direct, contract_address, event_type, log_index, raw_log, burn_source, burn_caller)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       ON CONFLICT (chain_id, transaction_hash, log_index)
+       DO UPDATE SET
+         burn_source = COALESCE(burn_events.burn_source, EXCLUDED.burn_source),
+         burn_caller = COALESCE(burn_events.burn_caller, EXCLUDED.burn_caller)`,
+      [
+        event.chainId,
+        event.transactionHash,
+        event.blockNumber,
+        event.blockTimestamp,
+        event.from.toLowerCase(),
+        event.value,
+        event.address.toLowerCase(),
+        'Transfer',
+        event.logIndex,
+        JSON.stringify(event.rawLog),
+        burnSource,
+        event.caller ?? null
+      ]
+    );
+    
+    if (event.caller !== undefined) {
+      await client.query(
+        `INSERT INTO burn_callers (chain_id, transaction_hash, caller)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (chain_id, transaction_hash) DO NOTHING`,
+        [event.chainId, event.transactionHash, event.caller]
+      );
     }
   }
   
   /**
-   * Handle XENBurned events from the XBurnMinter contract
+   * Handle XEN transfers to the XBurnMinter contract, the accumulated share of an XBurn burn
+   * @param client Database client inside an open transaction
+   * @param event Transfer event data
+   */
+  private async handleXenAccumulatedEvent(client: PoolClient, event: TransferEventData): Promise<void> {
+    await client.query(
+      `INSERT INTO burn_events
+       (chain_id, transaction_hash, block_number, block_timestamp, user_address,
+        xen_amount_accumulated, contract_address, event_type, log_index, raw_log, burn_source)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'xburn')
+       ON CONFLICT (chain_id, transaction_hash, log_index) DO NOTHING`,
+      [
+        event.chainId,
+        event.transactionHash,
+        event.blockNumber,
+        event.blockTimestamp,
+        event.from.toLowerCase(),
+        event.value,
+        event.address.toLowerCase(),
+        'XENAccumulated',
+        event.logIndex,
+        JSON.stringify(event.rawLog)
+      ]
+    );
+  }
+  
+  /**
+   * Handle XENBurned events from the XBurnMinter contract. The split into directly burned and
+   * accumulated XEN is taken from the user's transfers that precede the event in the same transaction,
+   * and flagged when it differs from the split expected at that block.
+   * @param client Database client inside an open transaction
    * @param event XENBurned event data
    */
-  private async handleXenBurnedEvent(event: any): Promise<void> {
-    try {
-      const client = await this.db.connect();
-      
-      try {
-        await client.query('BEGIN');
-        
-        // Calculate split amounts (80% direct, 20% accumulated)
-        const directAmount = BigInt(event.amount) * BigInt(80) / BigInt(100);
-        const accumulatedAmount = BigInt(event.amount) - directAmount;
-        
-        // Insert into burn_events table
-        await client.query(
-          `INSERT INTO burn_events 
-           (chain_id, transaction_hash, block_number, block_timestamp, user_address, 
-            xen_amount_direct, xen_amount_accumulated, contract_address, event_type)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-           ON CONFLICT (transaction_hash, event_type) DO NOTHING`,
-          [
-            event.chainId,
-            event.transactionHash,
-            event.blockNumber,
-            event.blockTimestamp,
-            event.user.toLowerCase(),
-            directAmount.toString(),
-            accumulatedAmount.toString(),
-            this.eventListener.chainConfig.xburnMinterAddress.toLowerCase(),
-            'XENBurned'
-          ]
-        );
-        
-        await client.query('COMMIT');
-        console.log(`Processed XENBurned event in transaction ${event.transactionHash}`);
-      } catch (error) {
-        await client.query('ROLLBACK');
-        console.error(`Error in handleXenBurnedEvent transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        throw error;
-      } finally {
-        client.release();
-      }
-    } catch (error) {
-      console.error(`Error handling XENBurned event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  private async handleXenBurnedEvent(client: PoolClient, event: AmountEventData): Promise<void> {
+    const amount = BigInt(event.amount);
+    const { directBps } = expectedBurnSplit(event.chainId, event.blockNumber);
+    const expectedDirect = amount * BigInt(directBps) / BigInt(10000);
+    const expectedAccumulated = amount - expectedDirect;
+    
+    // Transfers not yet claimed by an earlier XENBurned, or already linked to this one when reprocessing
+    const transfersOfBurn = `
+      chain_id = $1 AND transaction_hash = $2 AND user_address = $3 AND log_index < $4
+      AND event_type IN ('Transfer', 'XENAccumulated')
+      AND (linked_event_id IS NULL OR linked_event_id = (
+        SELECT id FROM burn_events WHERE chain_id = $1 AND transaction_hash = $2 AND log_index = $4
+      ))`;
+    const transferParams = [event.chainId, event.transactionHash, event.user.toLowerCase(), event.logIndex];
+    
+    const observed = await client.query(
+      `SELECT 
+         COUNT(*) AS transfers,
+         COALESCE(SUM(xen_amount_direct), 0) AS direct,
+         COALESCE(SUM(xen_amount_accumulated), 0) AS accumulated
+       FROM burn_events
+       WHERE ${transfersOfBurn}`,
+      transferParams
+    );
+    
+    const transfers = Number(observed.rows[0].transfers);
+    const directAmount = transfers > 0 ? BigInt(observed.rows[0].direct) : expectedDirect;
+    const accumulatedAmount = transfers > 0 ? BigInt(observed.rows[0].accumulated) : expectedAccumulated;
+    const splitMismatch = transfers === 0 || directAmount !== expectedDirect || accumulatedAmount !== expectedAccumulated;
+    
+    if (splitMismatch) {
+      console.warn(
+        `XENBurned ${event.transactionHash}:${event.logIndex} on chain ${event.chainId} ` +
+        (transfers === 0
+          ? 'has no matching XEN transfers, using the expected split'
+          : `split ${directAmount}/${accumulatedAmount} differs from the expected ${expectedDirect}/${expectedAccumulated}`)
+      );
     }
+    
+    // Insert into burn_events table; reprocessing recomputes the split from the stored transfers
+    await client.query(
+      `INSERT INTO burn_events
+       (chain_id, transaction_hash, block_number, block_timestamp, user_address,
+        xen_amount_direct, xen_amount_accumulated, contract_address, event_type, log_index, raw_log,
+        burn_source, xen_amount_reported, split_mismatch)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'xburn', $12, $13)
+       ON CONFLICT (chain_id, transaction_hash, log_index)
+       DO UPDATE SET
+         xen_amount_direct = EXCLUDED.xen_amount_direct,
+         xen_amount_accumulated = EXCLUDED.xen_amount_accumulated,
+         xen_amount_reported = EXCLUDED.xen_amount_reported,
+         split_mismatch = EXCLUDED.split_mismatch`,
+      [
+        event.chainId,
+        event.transactionHash,
+        event.blockNumber,
+        event.blockTimestamp,
+        event.user.toLowerCase(),
+        directAmount.toString(),
+        accumulatedAmount.toString(),
+        event.address.toLowerCase(),
+        'XENBurned',
+        event.logIndex,
+        JSON.stringify(event.rawLog),
+        event.amount,
+        splitMismatch
+      ]
+    );
+    
+    // The transfers that precede this event in the same transaction are the same burn
+    await client.query(
+      `UPDATE burn_events
+       SET burn_source = 'xburn',
+           linked_event_id = (
+             SELECT id FROM burn_events
+             WHERE chain_id = $1 AND transaction_hash = $2 AND log_index = $4
+           )
+       WHERE ${transfersOfBurn}`,
+      transferParams
+    );
   }
   
   /**
    * Handle BurnNFTMinted events from the XBurnMinter contract
+   * @param client Database client inside an open transaction
    * @param event BurnNFTMinted event data
    */
-  private async handleBurnNftMintedEvent(event: any): Promise<void> {
-    try {
-      const client = await this.db.connect();
-      
-      try {
-        await client.query('BEGIN');
-        
-        // Calculate maturity timestamp (current time + term days)
-        const maturityTimestamp = new Date(
-          event.blockTimestamp.getTime() + parseInt(event.termDays) * 24 * 60 * 60 * 1000
-        );
-        
-        // Insert into burn_positions table
-        await client.query(
-          `INSERT INTO burn_positions 
-           (chain_id, nft_id, user_address, xen_burned_total, 
-            lock_period_days, maturity_timestamp, mint_transaction_hash, 
-            mint_block_timestamp, status)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-           ON CONFLICT (chain_id, nft_id) 
-           DO UPDATE SET 
-             user_address = $3, 
-             xen_burned_total = $4, 
-             lock_period_days = $5, 
-             maturity_timestamp = $6, 
-             mint_transaction_hash = $7, 
-             mint_block_timestamp = $8,
-             updated_at = NOW()`,
-          [
-            event.chainId,
-            event.tokenId,
-            event.user.toLowerCase(),
-            event.xenAmount,
-            event.termDays,
-            maturityTimestamp,
-            event.transactionHash,
-            event.blockTimestamp,
-            'locked'
-          ]
-        );
-        
-        // Link burn event to NFT position if it exists
-        await client.query(
-          `UPDATE burn_events 
-           SET nft_id = $1
-           WHERE transaction_hash = $2 AND chain_id = $3 AND event_type = 'XENBurned'`,
-          [
-            event.tokenId,
-            event.transactionHash,
-            event.chainId
-          ]
-        );
-        
-        // Fetch amplifier value from event
-        // For simplicity, using a placeholder value. In a real system, this would come from contract query
-        const amplifierValue = 1000; // Placeholder value
-        
-        // Update amplifier value
-        await client.query(
-          `UPDATE burn_positions
-           SET amplifier_at_burn = $1
-           WHERE nft_id = $2 AND chain_id = $3`,
-          [
-            amplifierValue,
-            event.tokenId,
-            event.chainId
-          ]
-        );
-        
-        await client.query('COMMIT');
-        console.log(`Processed BurnNFTMinted event for token ${event.tokenId} in transaction ${event.transactionHash}`);
-      } catch (error) {
-        await client.query('ROLLBACK');
-        console.error(`Error in handleBurnNftMintedEvent transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        throw error;
-      } finally {
-        client.release();
-      }
-    } catch (error) {
-      console.error(`Error handling BurnNFTMinted event: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  private async handleBurnNftMintedEvent(client: PoolClient, event: BurnNftMintedEventData): Promise<void> {
+    // Calculate a fallback maturity timestamp (block time + term days)
+    // The contract's own value from BurnLockCreated takes precedence and is never overwritten here
+    const maturityTimestamp = new Date(
+      event.blockTimestamp.getTime() + parseInt(event.termDays) * 24 * 60 * 60 * 1000
+    );
+    
+    // Insert into burn_positions table
+    await client.query(
+      `INSERT INTO burn_positions
+       (chain_id, nft_id, user_address, xen_burned_total,
+        lock_period_days, maturity_timestamp, mint_transaction_hash,
+        mint_block_timestamp, mint_block_number, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (chain_id, nft_id)
+       DO UPDATE SET
+         user_address = $3,
+         xen_burned_total = $4,
+         lock_period_days = $5,
+         mint_transaction_hash = $7,
+         mint_block_timestamp = $8,
+         mint_block_number = $9,
+         updated_at = NOW()`,
+      [
+        event.chainId,
+        event.tokenId,
+        event.user.toLowerCase(),
+        event.xenAmount,
+        event.termDays,
+        maturityTimestamp,
+        event.transactionHash,
+        event.blockTimestamp,
+        event.blockNumber,
+        'locked'
+      ]
+    );
+    
+    // Link the XENBurned log that precedes this mint in the same transaction to the NFT
+    await client.query(
+      `UPDATE burn_events
+       SET nft_id = $1
+       WHERE id = (
+         SELECT id FROM burn_events
+         WHERE transaction_hash = $2 AND chain_id = $3 AND event_type = 'XENBurned'
+           AND log_index < $4 AND nft_id IS NULL
+         ORDER BY log_index DESC
+         LIMIT 1
+       )`,
+      [
+        event.tokenId,
+        event.transactionHash,
+        event.chainId,
+        event.logIndex
+      ]
+    );
+  
   }
   
   /**
    * Handle XBURNClaimed events from the XBurnMinter contract
+   * @param client Database client inside an open transaction
    * @param event XBURNClaimed event data
    */
-  private async handleXburnClaimedEvent(event: any): Promise<void> {
-    try {
-      const client = await this.db.connect();
+  private async handleXburnClaimedEvent(client: PoolClient, event: XburnClaimedEventData): Promise<void> {
+    // Record the claim; the position is linked through the LockClaimed event of the same transaction
+    await client.query(
+      `INSERT INTO burn_events
+       (chain_id, transaction_hash, block_number, block_timestamp, user_address,
+        xburn_amount, xburn_bonus_amount, contract_address, event_type, log_index, raw_log)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (chain_id, transaction_hash, log_index) DO NOTHING`,
+      [
+        event.chainId,
+        event.transactionHash,
+        event.blockNumber,
+        event.blockTimestamp,
+        event.user.toLowerCase(),
+        (BigInt(event.baseAmount) + BigInt(event.bonusAmount)).toString(),
+        event.bonusAmount,
+        event.address.toLowerCase(),
+        'XBURNClaimed',
+        event.logIndex,
+        JSON.stringify(event.rawLog)
+      ]
+    );
+    
+    await this.linkClaim(client, event.chainId, event.transactionHash);
+  }
+  
+  /**
+   * Handle XBURNBurned events from the XBurnMinter contract
+   * @param client Database client inside an open transaction
+   * @param event XBURNBurned event data
+   */
+  private async handleXburnBurnedEvent(client: PoolClient, event: AmountEventData): Promise<void> {
+    // Insert into burn_events table (XBURN amount, not XEN)
+    await client.query(
+      `INSERT INTO burn_events
+       (chain_id, transaction_hash, block_number, block_timestamp, user_address,
+        xburn_amount, contract_address, event_type, log_index, raw_log)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (chain_id, transaction_hash, log_index) DO NOTHING`,
+      [
+        event.chainId,
+        event.transactionHash,
+        event.blockNumber,
+        event.blockTimestamp,
+        event.user.toLowerCase(),
+        event.amount,
+        event.address.toLowerCase(),
+        'XBURNBurned',
+        event.logIndex,
+        JSON.stringify(event.rawLog)
+      ]
+    );
+  }
+  
+  /**
+   * Handle EmergencyEnd events from the XBurnMinter contract
+   * @param client Database client inside an open transaction
+   * @param event EmergencyEnd event data
+   */
+  private async handleEmergencyEndEvent(client: PoolClient, event: EmergencyEndEventData): Promise<void> {
+    // Record the emergency end itself, with the base XBURN amount returned
+    await client.query(
+      `INSERT INTO burn_events
+       (chain_id, transaction_hash, block_number, block_timestamp, user_address,
+        xburn_amount, contract_address, event_type, log_index, raw_log)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (chain_id, transaction_hash, log_index) DO NOTHING`,
+      [
+        event.chainId,
+        event.transactionHash,
+        event.blockNumber,
+        event.blockTimestamp,
+        event.user.toLowerCase(),
+        event.baseAmount,
+        event.address.toLowerCase(),
+        'EmergencyEnd',
+        event.logIndex,
+        JSON.stringify(event.rawLog)
+      ]
+    );
+    
+    await this.linkEmergencyEnd(client, event.chainId, event.transactionHash);
+  }
+  
+  /**
+   * Handle BurnLockCreated events from the XBurnNFT contract
+   * @param client Database client inside an open transaction
+   * @param event BurnLockCreated event data
+   */
+  private async handleBurnLockCreatedEvent(client: PoolClient, event: BurnLockCreatedEventData): Promise<void> {
+    // Upsert the position with the maturity timestamp reported by the contract
+    await client.query(
+      `INSERT INTO burn_positions
+       (chain_id, nft_id, user_address, xen_burned_total,
+        lock_period_days, maturity_timestamp, mint_transaction_hash,
+        mint_block_timestamp, mint_block_number, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (chain_id, nft_id)
+       DO UPDATE SET
+         lock_period_days = $5,
+         maturity_timestamp = $6,
+         updated_at = NOW()`,
+      [
+        event.chainId,
+        event.tokenId,
+        event.user.toLowerCase(),
+        event.amount,
+        event.termDays,
+        event.maturityTimestamp,
+        event.transactionHash,
+        event.blockTimestamp,
+        event.blockNumber,
+        'locked'
+      ]
+    );
+  }
+  
+  /**
+   * Handle LockClaimed and LockBurned events from the XBurnNFT contract
+   * @param client Database client inside an open transaction
+   * @param eventType Event name stored in burn_events
+   * @param event Lock event data
+   */
+  private async handleLockEvent(client: PoolClient, eventType: 'LockClaimed' | 'LockBurned', event: LockEventData): Promise<void> {
+    // Record the token ID so minter events of the same transaction can be tied to it
+    await client.query(
+      `INSERT INTO burn_events
+       (chain_id, transaction_hash, block_number, block_timestamp,
+        nft_id, contract_address, event_type, log_index, raw_log)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (chain_id, transaction_hash, log_index) DO NOTHING`,
+      [
+        event.chainId,
+        event.transactionHash,
+        event.blockNumber,
+        event.blockTimestamp,
+        event.tokenId,
+        event.address.toLowerCase(),
+        eventType,
+        event.logIndex,
+        JSON.stringify(event.rawLog)
+      ]
+    );
+    
+    if (eventType === 'LockClaimed') {
+      await this.linkClaim(client, event.chainId, event.transactionHash);
+    } else {
+      await this.linkEmergencyEnd(client, event.chainId, event.transactionHash);
+    }
+  }
+  
+  /**
+   * Mark positions claimed once both XBURNClaimed and LockClaimed of a transaction are stored.
+   * Several claims in one transaction are paired in log order.
+   * @param client Database client inside an open transaction
+   * @param chainId Chain ID
+   * @param transactionHash Transaction hash
+   */
+  private async linkClaim(client: PoolClient, chainId: number, transactionHash: string): Promise<void> {
+    const result = await client.query(
+      `WITH claims AS (
+         SELECT block_number, block_timestamp, xburn_amount, xburn_bonus_amount, ROW_NUMBER() OVER (ORDER BY log_index) AS pair
+         FROM burn_events
+         WHERE chain_id = $1 AND transaction_hash = $2 AND event_type = 'XBURNClaimed'
+       ), locks AS (
+         SELECT nft_id, ROW_NUMBER() OVER (ORDER BY log_index) AS pair
+         FROM burn_events
+         WHERE chain_id = $1 AND transaction_hash = $2 AND event_type = 'LockClaimed'
+       )
+       SELECT locks.nft_id, claims.block_number, claims.block_timestamp, claims.xburn_amount, claims.xburn_bonus_amount
+       FROM claims
+       JOIN locks ON locks.pair = claims.pair`,
+      [chainId, transactionHash]
+    );
+    
+    for (const row of result.rows) {
+      const { nft_id: nftId, block_number: blockNumber, block_timestamp: blockTimestamp, xburn_amount: xburnAmount, xburn_bonus_amount: bonusAmount } = row;
       
-      try {
-        await client.query('BEGIN');
-        
-        // Find the NFT position associated with this claim
-        // For the real implementation, we would need to track the NFT ID from the transaction
-        // Here we're using a simplified approach to find a matching position
-        const result = await client.query(
-          `SELECT nft_id FROM burn_positions 
-           WHERE user_address = $1 AND chain_id = $2 AND status = 'locked'
-           ORDER BY maturity_timestamp ASC LIMIT 1`,
-          [event.user.toLowerCase(), event.chainId]
-        );
-        
-        if (result.rows.length > 0) {
-          const nftId = result.rows[0].nft_id;
-          
-          // Update burn position as claimed
-          await client.query(
-            `UPDATE burn_positions 
-             SET status = 'claimed', 
-                 claimed_transaction_hash = $1,
-                 claimed_block_timestamp = $2,
-                 claimed_xburn_amount = $3,
-                 updated_at = NOW()
-             WHERE nft_id = $4 AND chain_id = $5`,
-            [
-              event.transactionHash,
-              event.blockTimestamp,
-              (BigInt(event.baseAmount) + BigInt(event.bonusAmount)).toString(),
-              nftId,
-              event.chainId
-            ]
-          );
-          
-          console.log(`Updated position ${nftId} as claimed in transaction ${event.transactionHash}`);
-        } else {
-          console.warn(`Could not find matching NFT position for claim by ${event.user} in transaction ${event.transactionHash}`);
-        }
-        
-        await client.query('COMMIT');
-      } catch (error) {
-        await client.query('ROLLBACK');
-        console.error(`Error in handleXburnClaimedEvent transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        throw error;
-      } finally {
-        client.release();
+      const update = await client.query(
+        `UPDATE burn_positions
+         SET status = 'claimed',
+             claimed_transaction_hash = $1,
+             claimed_block_timestamp = $2,
+             claimed_block_number = $3,
+             claimed_xburn_amount = $4,
+             claimed_xburn_bonus = $5,
+             finality = 'pending',
+             updated_at = NOW()
+         WHERE nft_id = $6 AND chain_id = $7`,
+        [transactionHash, blockTimestamp, blockNumber, xburnAmount, bonusAmount, nftId, chainId]
+      );
+      
+      if (update.rowCount === 0) {
+        console.warn(`Claim in transaction ${transactionHash} references unknown position ${nftId}`);
       }
-    } catch (error) {
-      console.error(`Error handling XBURNClaimed event: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
   /**
-   * Handle blockProcessed events from the EventListener
-   * @param event Block processed event data
+   * Mark positions emergency withdrawn once both EmergencyEnd and LockBurned of a transaction are stored.
+   * Several emergency ends in one transaction are paired in log order.
+   * @param client Database client inside an open transaction
+   * @param chainId Chain ID
+   * @param transactionHash Transaction hash
    */
-  private async handleBlockProcessed(event: any): Promise<void> {
-    try {
-      // Update indexer state
-      await this.db.query(
-        `UPDATE chains 
-         SET last_indexed_block = $1, updated_at = NOW()
-         WHERE chain_id = $2`,
-        [event.blockNumber, event.chainId]
+  private async linkEmergencyEnd(client: PoolClient, chainId: number, transactionHash: string): Promise<void> {
+    const result = await client.query(
+      `WITH ends AS (
+         SELECT block_number, block_timestamp, user_address, xburn_amount, ROW_NUMBER() OVER (ORDER BY log_index) AS pair
+         FROM burn_events
+         WHERE chain_id = $1 AND transaction_hash = $2 AND event_type = 'EmergencyEnd'
+       ), locks AS (
+         SELECT nft_id, ROW_NUMBER() OVER (ORDER BY log_index) AS pair
+         FROM burn_events
+         WHERE chain_id = $1 AND transaction_hash = $2 AND event_type = 'LockBurned'
+       )
+       SELECT locks.nft_id, ends.block_number, ends.block_timestamp, ends.user_address, ends.xburn_amount
+       FROM ends
+       JOIN locks ON locks.pair = ends.pair`,
+      [chainId, transactionHash]
+    );
+    
+    for (const row of result.rows) {
+      const {
+        nft_id: nftId,
+        block_number: blockNumber,
+        block_timestamp: blockTimestamp,
+        user_address: userAddress,
+        xburn_amount: baseAmount
+      } = row;
+      
+      // The claimed amount of an emergency withdrawal is the base amount returned.
+      // If the caller is not the original minter (e.g. the NFT was transferred) we cannot verify ownership from events alone.
+      const update = await client.query(
+        `UPDATE burn_positions
+         SET status = CASE WHEN user_address = $1 THEN 'emergency_withdrawn' ELSE 'emergency_withdrawn_owner_unverified' END,
+             claimed_transaction_hash = $2,
+             claimed_block_timestamp = $3,
+             claimed_block_number = $4,
+             claimed_xburn_amount = $5,
+             finality = 'pending',
+             updated_at = NOW()
+         WHERE nft_id = $6 AND chain_id = $7`,
+        [userAddress, transactionHash, blockTimestamp, blockNumber, baseAmount, nftId, chainId]
       );
       
-      console.log(`Updated indexer state for chain ${event.chainId} to block ${event.blockNumber}`);
-    } catch (error) {
-      console.error(`Error updating indexer state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (update.rowCount === 0) {
+        console.warn(`Emergency end in transaction ${transactionHash} references unknown position ${nftId}`);
+      }
     }
   }
   
   /**
-   * Handle error events from the EventListener
+   * Record a failed batch of the EventListener in validation_stats with type `indexing`;
+   * the listener retries it on its next run
    * @param event Error event data
    */
-  private handleError(event: any): void {
-    console.error(`Error in EventListener for chain ${event.chainId}: ${event.error instanceof Error ? event.error.message : 'Unknown error'}`);
-    // Here you could implement additional error handling, like notifications or retries
+  private async handleError(event: ListenerError): Promise<void> {
+    const message = event.error instanceof Error ? event.error.message : 'Unknown error';
+    console.error(`Error in EventListener for chain ${event.chainId}: ${message}`);
+    
+    try {
+      await this.db.query(
+        `INSERT INTO validation_stats
+         (chain_id, validation_type, status, details, validated_at)
+         VALUES ($1, $2, $3, $4, NOW())`,
+        [event.chainId, 'indexing', 'failure', `Batch from block ${event.fromBlock}: ${message}`]
+      );
+    } catch (error) {
+      console.warn(`Error recording failed batch for chain ${event.chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
-} 
\ No newline at end of file
+}
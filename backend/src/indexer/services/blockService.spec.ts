@@ -0,0 +1,60 @@
+import { Pool } from 'pg';
+import { BlockService } from './blockService';
+import { FailoverProvider } from './failoverProvider';
+import { ProviderService } from './providerService';
+import { createTestDb, insertChain } from '../../testing/testDb';
+
+const CHAIN_ID = 31337;
+
+/**
+ * Providers whose transactions all call one contract, recording each batch of lookups
+ */
+function fakeProviders(caller: string, batches: string[][]): ProviderService {
+  const provider = {
+    getTransactionRecipients: async (hashes: string[]) => {
+      batches.push(hashes);
+      return new Map(hashes.map(hash => [hash, caller]));
+    }
+  } as unknown as FailoverProvider;
+  
+  return { getProvider: () => provider } as unknown as ProviderService;
+}
+
+describe('BlockService', () => {
+  let pool: Pool;
+  
+  beforeEach(async () => {
+    pool = createTestDb().pool;
+    await insertChain(pool, CHAIN_ID);
+  });
+  
+  describe('getTransactionCallers', () => {
+    it('takes callers kept in burn_callers and fetches the rest in one batch', async () => {
+      await pool.query(
+        `INSERT INTO burn_callers (chain_id, transaction_hash, caller) VALUES ($1, '0xknown', '0xprotocol'), ($1, '0xcreation', NULL)`,
+        [CHAIN_ID]
+      );
+      const batches: string[][] = [];
+      const blockService = new BlockService(pool, fakeProviders('0xxen', batches));
+      
+      const callers = await blockService.getTransactionCallers(CHAIN_ID, ['0xknown', '0xnew1', '0xcreation', '0xnew2', '0xnew1']);
+      
+      expect(batches).toEqual([['0xnew1', '0xnew2']]);
+      expect(callers).toEqual(new Map([
+        ['0xknown', '0xprotocol'],
+        ['0xcreation', null],
+        ['0xnew1', '0xxen'],
+        ['0xnew2', '0xxen']
+      ]));
+    });
+    
+    it('does not call the provider when every caller is known', async () => {
+      await pool.query(`INSERT INTO burn_callers (chain_id, transaction_hash, caller) VALUES ($1, '0xknown', '0xprotocol')`, [CHAIN_ID]);
+      const batches: string[][] = [];
+      const blockService = new BlockService(pool, fakeProviders('0xxen', batches));
+      
+      expect(await blockService.getTransactionCallers(CHAIN_ID, ['0xknown'])).toEqual(new Map([['0xknown', '0xprotocol']]));
+      expect(batches).toEqual([]);
+    });
+  });
+});
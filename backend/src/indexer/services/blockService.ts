@@ -1,36 +1,25 @@
-import { ethers } from 'ethers';
 import { Pool } from 'pg';
-import { ChainConfig } from '../config/chains';
+import { ProviderService } from './providerService';
+
+// Transactions looked up per batch when resolving burn callers
+const CALLER_LOOKUP_BATCH_SIZE = 100;
 
 /**
- * Service for retrieving and caching block information
+ * Service for retrieving and caching block information and the callers of burn transactions
  */
 export class BlockService {
   private db: Pool;
-  private providers: Map<number, ethers.JsonRpcProvider> = new Map();
+  private providerService: ProviderService;
   private blockCache: Map<string, number> = new Map(); // Cache format: 'chainId:blockNumber' -> timestamp
   
   /**
    * Create a new BlockService instance
    * @param db Database pool
+   * @param providerService Shared RPC providers
    */
-  constructor(db: Pool) {
+  constructor(db: Pool, providerService: ProviderService) {
     this.db = db;
-  }
-  
-  /**
-   * Initialize providers for all chains
-   * @param chainConfigs Array of chain configurations
-   */
-  initializeProviders(chainConfigs: ChainConfig[]): void {
-    for (const config of chainConfigs) {
-      if (config.enabled) {
-        this.providers.set(
-          config.chainId,
-          new ethers.JsonRpcProvider(config.rpcUrl)
-        );
-      }
-    }
+    this.providerService = providerService;
   }
   
   /**
@@ -64,9 +53,20 @@ export class BlockService {
       // Continue to fetch from RPC
     }
     
-    // Fetch from RPC
+    return this.fetchBlockTimestamp(chainId, blockNumber);
+  }
+  
+  /**
+   * Fetch a block timestamp from RPC and store it in the database and cache
+   * @param chainId Chain ID
+   * @param blockNumber Block number
+   * @returns Unix timestamp in seconds
+   */
+  private async fetchBlockTimestamp(chainId: number, blockNumber: number): Promise<number> {
+    const cacheKey = `${chainId}:${blockNumber}`;
+    
     try {
-      const provider = this.getProvider(chainId);
+      const provider = this.providerService.getProvider(chainId);
       const block = await provider.getBlock(blockNumber);
       
       if (!block) {
@@ -98,17 +98,113 @@ export class BlockService {
   }
   
   /**
-   * Get a provider for a specific chain
+   * Get timestamps for a set of blocks, fetching each distinct block at most once
+   * @param chainId Chain ID
+   * @param blockNumbers Block numbers (duplicates allowed)
+   * @returns Map of block number to Unix timestamp in seconds
+   */
+  async getBlockTimestamps(chainId: number, blockNumbers: number[]): Promise<Map<number, number>> {
+    const timestamps = new Map<number, number>();
+    const missing: number[] = [];
+    
+    // Check cache first
+    for (const blockNumber of new Set(blockNumbers)) {
+      const cached = this.blockCache.get(`${chainId}:${blockNumber}`);
+      if (cached !== undefined) {
+        timestamps.set(blockNumber, cached);
+      } else {
+        missing.push(blockNumber);
+      }
+    }
+    
+    if (missing.length === 0) {
+      return timestamps;
+    }
+    
+    // Check database in one query
+    try {
+      const result = await this.db.query(
+        `SELECT block_number, block_timestamp FROM block_timestamps WHERE chain_id = $1 AND block_number = ANY($2)`,
+        [chainId, missing]
+      );
+      
+      for (const row of result.rows) {
+        const blockNumber = Number(row.block_number);
+        const timestamp = Math.floor(new Date(row.block_timestamp).getTime() / 1000);
+        this.blockCache.set(`${chainId}:${blockNumber}`, timestamp);
+        timestamps.set(blockNumber, timestamp);
+      }
+    } catch (error) {
+      console.warn(`Error querying block timestamps from database: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // Continue to fetch from RPC
+    }
+    
+    // Fetch the rest from RPC
+    for (const blockNumber of missing) {
+      if (!timestamps.has(blockNumber)) {
+        timestamps.set(blockNumber, await this.fetchBlockTimestamp(chainId, blockNumber));
+      }
+    }
+    
+    return timestamps;
+  }
+  
+  /**
+   * Get the contract called by each transaction, taking callers already kept in burn_callers
+   * and fetching the rest from RPC in batches
    * @param chainId Chain ID
-   * @returns JsonRpcProvider instance
+   * @param transactionHashes Transaction hashes (duplicates allowed)
+   * @returns Lowercase caller by transaction hash, null for a contract creation
    */
-  private getProvider(chainId: number): ethers.JsonRpcProvider {
-    const provider = this.providers.get(chainId);
+  async getTransactionCallers(chainId: number, transactionHashes: string[]): Promise<Map<string, string | null>> {
+    const hashes = [...new Set(transactionHashes)];
+    const callers = new Map<string, string | null>();
     
-    if (!provider) {
-      throw new Error(`No provider configured for chain ${chainId}`);
+    if (hashes.length === 0) {
+      return callers;
     }
     
-    return provider;
+    // Check database in one query
+    try {
+      const result = await this.db.query(
+        `SELECT transaction_hash, caller FROM burn_callers WHERE chain_id = $1 AND transaction_hash = ANY($2)`,
+        [chainId, hashes]
+      );
+      
+      for (const row of result.rows) {
+        callers.set(row.transaction_hash, row.caller);
+      }
+    } catch (error) {
+      console.warn(`Error querying burn callers from database: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // Continue to fetch from RPC
+    }
+    
+    // Fetch the rest from RPC
+    const missing = hashes.filter(hash => !callers.has(hash));
+    const provider = this.providerService.getProvider(chainId);
+    
+    for (let i = 0; i < missing.length; i += CALLER_LOOKUP_BATCH_SIZE) {
+      const recipients = await provider.getTransactionRecipients(missing.slice(i, i + CALLER_LOOKUP_BATCH_SIZE));
+      
+      for (const [hash, recipient] of recipients) {
+        callers.set(hash, recipient);
+      }
+    }
+    
+    return callers;
+  }
+  
+  /**
+   * Drop cached timestamps above a block, e.g. after a chain reorganization
+   * @param chainId Chain ID
+   * @param blockNumber Last block whose cached timestamp is kept
+   */
+  invalidateAbove(chainId: number, blockNumber: number): void {
+    for (const key of this.blockCache.keys()) {
+      const [cachedChainId, cachedBlock] = key.split(':').map(Number);
+      if (cachedChainId === chainId && cachedBlock > blockNumber) {
+        this.blockCache.delete(key);
+      }
+    }
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,377 @@
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+
+// Retry and scoring settings
+const DEFAULT_MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10000;
+const LATENCY_SMOOTHING = 0.2;
+const ERROR_SMOOTHING = 0.2;
+const ERROR_COOLDOWN_MS = 30000;
+const DEFAULT_HEAD_POLL_INTERVAL_MS = 15000;
+const DEFAULT_STALE_BLOCK_THRESHOLD = 10;
+
+// Provider errors that mean the requested range or result set was too large
+const RANGE_LIMIT_ERROR_PATTERNS = [
+  /more than \d+ results/i,
+  /block range/i,
+  /range (is )?too (large|wide|big)/i,
+  /response size (exceeded|is larger)/i,
+  /too many (logs|results)/i,
+  /query timeout exceeded/i
+];
+
+/**
+ * Error thrown by ethers for a failed RPC call; the provider's message may be nested
+ */
+interface RpcError {
+  message?: string;
+  error?: { message?: string };
+  info?: { error?: { message?: string } };
+}
+
+/**
+ * Check whether an RPC error is a provider limit on getLogs range or result size
+ * @param error Error thrown by the provider
+ * @returns True if retrying with a smaller range may succeed
+ */
+export function isRangeLimitError(error: RpcError | null | undefined): boolean {
+  const messages = [
+    error?.message,
+    error?.error?.message,
+    error?.info?.error?.message
+  ].filter(Boolean);
+  
+  return messages.some(message => RANGE_LIMIT_ERROR_PATTERNS.some(pattern => pattern.test(message)));
+}
+
+/**
+ * Health snapshot of a single RPC endpoint
+ */
+export interface EndpointHealth {
+  url: string;
+  latencyMs: number | null;
+  requests: number;
+  errors: number;
+  errorRate: number;
+  lastHead: number | null;
+  stale: boolean;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  score: number;
+}
+
+/**
+ * Options for a FailoverProvider
+ */
+export interface FailoverProviderOptions {
+  maxAttempts?: number;
+  headPollIntervalMs?: number;
+  staleBlockThreshold?: number;
+}
+
+/**
+ * Internal per-endpoint state
+ */
+interface RpcEndpoint {
+  url: string;
+  provider: ethers.JsonRpcProvider;
+  latencyMs: number | null;
+  requests: number;
+  errors: number;
+  recentErrorRate: number;
+  lastHead: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+}
+
+/**
+ * FailoverProvider spreads RPC calls for one chain over several endpoints.
+ * Calls are retried with exponential backoff and routed to the healthiest endpoint,
+ * judged by latency, recent error rate and how far its head lags behind the others.
+ * Emits 'block' with the highest head seen across endpoints.
+ */
+export class FailoverProvider extends EventEmitter {
+  public readonly chainId: number;
+  private endpoints: RpcEndpoint[];
+  private maxAttempts: number;
+  private headPollIntervalMs: number;
+  private staleBlockThreshold: number;
+  private headPollTimer: NodeJS.Timeout | null = null;
+  private highestHead: number = 0;
+  
+  /**
+   * Create a new FailoverProvider instance
+   * @param chainId Chain ID served by the endpoints
+   * @param urls RPC endpoint URLs
+   * @param options Retry and health settings
+   */
+  constructor(chainId: number, urls: string[], options: FailoverProviderOptions = {}) {
+    super();
+    
+    if (urls.length === 0) {
+      throw new Error(`No RPC endpoints configured for chain ${chainId}`);
+    }
+    
+    this.chainId = chainId;
+    this.maxAttempts = options.maxAttempts || Math.max(DEFAULT_MAX_ATTEMPTS, urls.length);
+    this.headPollIntervalMs = options.headPollIntervalMs || DEFAULT_HEAD_POLL_INTERVAL_MS;
+    this.staleBlockThreshold = options.staleBlockThreshold || DEFAULT_STALE_BLOCK_THRESHOLD;
+    
+    const network = ethers.Network.from(chainId);
+    this.endpoints = urls.map(url => ({
+      url,
+      provider: new ethers.JsonRpcProvider(url, network, { staticNetwork: network }),
+      latencyMs: null,
+      requests: 0,
+      errors: 0,
+      recentErrorRate: 0,
+      lastHead: null,
+      lastError: null,
+      lastErrorAt: null
+    }));
+  }
+  
+  /**
+   * Run an RPC operation against the healthiest endpoint, retrying on other endpoints with backoff
+   * @param operation Operation name for logging
+   * @param fn Operation to run against a provider
+   * @returns Operation result
+   */
+  async execute<T>(operation: string, fn: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    const tried = new Set<RpcEndpoint>();
+    let lastError: unknown;
+    
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      // Prefer endpoints not yet tried for this call
+      const candidates = this.endpoints.filter(endpoint => !tried.has(endpoint));
+      const endpoint = this.selectEndpoint(candidates.length > 0 ? candidates : this.endpoints);
+      tried.add(endpoint);
+      
+      const start = Date.now();
+      endpoint.requests++;
+      
+      try {
+        const result = await fn(endpoint.provider);
+        this.recordSuccess(endpoint, Date.now() - start);
+        return result;
+      } catch (error) {
+        lastError = error;
+        
+        // Range limits and contract reverts are a property of the request, not of the endpoint
+        if (isRangeLimitError(error) || ethers.isError(error, 'CALL_EXCEPTION')) {
+          this.recordSuccess(endpoint, Date.now() - start);
+          throw error;
+        }
+        
+        this.recordError(endpoint, error);
+        console.warn(`RPC ${operation} failed on ${endpoint.url} for chain ${this.chainId} (attempt ${attempt}/${this.maxAttempts}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+        
+        if (attempt < this.maxAttempts) {
+          const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+          await new Promise(resolve => setTimeout(resolve, backoff + Math.floor(Math.random() * BASE_BACKOFF_MS)));
+        }
+      }
+    }
+    
+    throw lastError;
+  }
+  
+  /**
+   * Get the current block number
+   * @returns Block number
+   */
+  async getBlockNumber(): Promise<number> {
+    return this.execute('getBlockNumber', provider => provider.getBlockNumber());
+  }
+  
+  /**
+   * Get a block header
+   * @param blockTag Block number or tag
+   * @returns Block, or null if not found
+   */
+  async getBlock(blockTag: ethers.BlockTag): Promise<ethers.Block | null> {
+    return this.execute('getBlock', provider => provider.getBlock(blockTag));
+  }
+  
+  /**
+   * Get the recipient of each transaction. The lookups are sent together, which ethers
+   * issues as JSON-RPC batch requests instead of one request per transaction
+   * @param hashes Transaction hashes
+   * @returns Lowercase recipient by transaction hash, null for a contract creation or an unknown transaction
+   */
+  async getTransactionRecipients(hashes: string[]): Promise<Map<string, string | null>> {
+    return this.execute('getTransactionRecipients', async provider => {
+      const transactions: ({ to: string | null } | null)[] = await Promise.all(
+        hashes.map(hash => provider.send('eth_getTransactionByHash', [hash]))
+      );
+      
+      return new Map(hashes.map((hash, index) => [hash, transactions[index]?.to ? transactions[index].to.toLowerCase() : null]));
+    });
+  }
+  
+  /**
+   * Get logs matching a filter
+   * @param filter Log filter
+   * @returns Matching logs
+   */
+  async getLogs(filter: ethers.Filter): Promise<ethers.Log[]> {
+    return this.execute('getLogs', provider => provider.getLogs(filter));
+  }
+  
+  /**
+   * Execute a read-only call
+   * @param transaction Call request
+   * @returns Returned data
+   */
+  async call(transaction: ethers.TransactionRequest): Promise<string> {
+    return this.execute('call', provider => provider.call(transaction));
+  }
+  
+  /**
+   * Start polling every endpoint's head to detect stale endpoints and announce new blocks
+   */
+  startHeadMonitor(): void {
+    if (this.headPollTimer) {
+      return;
+    }
+    
+    this.pollHeads();
+    this.headPollTimer = setInterval(() => this.pollHeads(), this.headPollIntervalMs);
+  }
+  
+  /**
+   * Stop polling endpoint heads
+   */
+  stopHeadMonitor(): void {
+    if (this.headPollTimer) {
+      clearInterval(this.headPollTimer);
+      this.headPollTimer = null;
+    }
+  }
+  
+  /**
+   * Stop monitoring and release every endpoint
+   */
+  destroy(): void {
+    this.stopHeadMonitor();
+    this.removeAllListeners();
+    
+    for (const endpoint of this.endpoints) {
+      endpoint.provider.destroy();
+    }
+  }
+  
+  /**
+   * Get a health snapshot of every endpoint
+   * @returns Endpoint health, best endpoint first
+   */
+  getHealth(): EndpointHealth[] {
+    return this.endpoints
+      .map(endpoint => ({
+        url: endpoint.url,
+        latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+        requests: endpoint.requests,
+        errors: endpoint.errors,
+        errorRate: endpoint.requests > 0 ? endpoint.errors / endpoint.requests : 0,
+        lastHead: endpoint.lastHead,
+        stale: this.isStale(endpoint),
+        lastError: endpoint.lastError,
+        lastErrorAt: endpoint.lastErrorAt ? new Date(endpoint.lastErrorAt).toISOString() : null,
+        score: Math.round(this.score(endpoint))
+      }))
+      .sort((a, b) => a.score - b.score);
+  }
+  
+  /**
+   * Poll the head of every endpoint once
+   */
+  private async pollHeads(): Promise<void> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      const start = Date.now();
+      endpoint.requests++;
+      
+      try {
+        endpoint.lastHead = await endpoint.provider.getBlockNumber();
+        this.recordSuccess(endpoint, Date.now() - start);
+      } catch (error) {
+        this.recordError(endpoint, error);
+      }
+    }));
+    
+    const heads = this.endpoints
+      .filter(endpoint => endpoint.lastHead !== null)
+      .map(endpoint => endpoint.lastHead!);
+    
+    if (heads.length === 0) {
+      return;
+    }
+    
+    const highestHead = Math.max(...heads);
+    if (highestHead > this.highestHead) {
+      this.highestHead = highestHead;
+      this.emit('block', highestHead);
+    }
+  }
+  
+  /**
+   * Pick the endpoint with the lowest score
+   * @param candidates Endpoints to choose from
+   * @returns Selected endpoint
+   */
+  private selectEndpoint(candidates: RpcEndpoint[]): RpcEndpoint {
+    return candidates.reduce((best, endpoint) => this.score(endpoint) < this.score(best) ? endpoint : best);
+  }
+  
+  /**
+   * Score an endpoint; lower is healthier
+   * @param endpoint Endpoint to score
+   * @returns Score
+   */
+  private score(endpoint: RpcEndpoint): number {
+    let score = (endpoint.latencyMs ?? 0) * (1 + 10 * endpoint.recentErrorRate);
+    
+    if (endpoint.lastErrorAt && Date.now() - endpoint.lastErrorAt < ERROR_COOLDOWN_MS) {
+      score += 30000;
+    }
+    
+    if (this.isStale(endpoint)) {
+      score += 60000;
+    }
+    
+    return score;
+  }
+  
+  /**
+   * Check whether an endpoint's head lags behind the highest head seen
+   * @param endpoint Endpoint to check
+   * @returns True if the endpoint is stale
+   */
+  private isStale(endpoint: RpcEndpoint): boolean {
+    return endpoint.lastHead !== null && this.highestHead - endpoint.lastHead > this.staleBlockThreshold;
+  }
+  
+  /**
+   * Record a successful request
+   * @param endpoint Endpoint used
+   * @param latencyMs Request latency
+   */
+  private recordSuccess(endpoint: RpcEndpoint, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs + LATENCY_SMOOTHING * (latencyMs - endpoint.latencyMs);
+    endpoint.recentErrorRate *= 1 - ERROR_SMOOTHING;
+  }
+  
+  /**
+   * Record a failed request
+   * @param endpoint Endpoint used
+   * @param error Error thrown
+   */
+  private recordError(endpoint: RpcEndpoint, error: unknown): void {
+    endpoint.errors++;
+    endpoint.recentErrorRate = endpoint.recentErrorRate * (1 - ERROR_SMOOTHING) + ERROR_SMOOTHING;
+    endpoint.lastError = error instanceof Error ? error.message : 'Unknown error';
+    endpoint.lastErrorAt = Date.now();
+  }
+}
@@ -0,0 +1,68 @@
+import { ChainConfig } from '../config/chains';
+import { FailoverProvider } from './failoverProvider';
+
+/**
+ * Settlement state of an indexed row: pending rows are above the chain's safe block,
+ * safe rows are at or below it, and final rows are at or below the finalized block
+ */
+export type Finality = 'pending' | 'safe' | 'final';
+
+/**
+ * Block tag a chain's checkpoint follows instead of its confirmation depth
+ */
+export type FinalityTag = 'safe' | 'finalized';
+
+export const FINALITY_STATES: Finality[] = ['pending', 'safe', 'final'];
+
+export const FINALITY_TAGS: FinalityTag[] = ['safe', 'finalized'];
+
+/**
+ * Highest safe and final block of a chain at one point in time
+ */
+export interface FinalityThresholds {
+  safeBlock: number;
+  finalBlock: number;
+}
+
+/**
+ * Resolve the safe and final blocks of a chain. Chains without a finality tag treat everything
+ * at the confirmation depth as final. Chains with a tag use the node's `safe` and `finalized`
+ * blocks, falling back to the confirmation depth when the node does not support them.
+ * @param provider Provider for the chain
+ * @param config Chain configuration
+ * @param head Current head block number
+ * @returns Safe and final block numbers
+ */
+export async function resolveFinality(provider: FailoverProvider, config: ChainConfig, head: number): Promise<FinalityThresholds> {
+  const confirmed = head - config.confirmations;
+  
+  if (!config.finalityTag) {
+    return { safeBlock: confirmed, finalBlock: confirmed };
+  }
+  
+  try {
+    const [safe, finalized] = await Promise.all([provider.getBlock('safe'), provider.getBlock('finalized')]);
+    
+    if (!safe || !finalized) {
+      throw new Error('safe or finalized block not available');
+    }
+    
+    return {
+      safeBlock: Math.max(safe.number, finalized.number),
+      finalBlock: finalized.number
+    };
+  } catch (error) {
+    console.warn(`Finality tags unavailable for chain ${config.chainId}, using ${config.confirmations} confirmations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return { safeBlock: confirmed, finalBlock: confirmed };
+  }
+}
+
+/**
+ * Highest block a chain's checkpoint may advance to
+ * @param config Chain configuration
+ * @param thresholds Current safe and final blocks
+ * @returns Block number
+ */
+export function checkpointTarget(config: ChainConfig, thresholds: FinalityThresholds): number {
+  return config.finalityTag === 'finalized' ? thresholds.finalBlock : thresholds.safeBlock;
+}
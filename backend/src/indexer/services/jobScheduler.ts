@@ -0,0 +1,252 @@
+import { Pool } from 'pg';
+import cron, { ScheduledTask } from 'node-cron';
+
+/**
+ * A named task run on a cron schedule or on demand
+ */
+export interface JobDefinition {
+  name: string;
+  schedule: string; // Cron expression, in the server's local time
+  description: string;
+  run: () => Promise<string | void>; // Resolves to optional details stored with the run
+}
+
+/**
+ * How a job run was started
+ */
+export type JobTrigger = 'schedule' | 'manual';
+
+/**
+ * Registered job as reported by the scheduler
+ */
+export interface JobInfo {
+  name: string;
+  schedule: string;
+  description: string;
+  running: boolean;
+}
+
+/**
+ * JobScheduler runs registered jobs on their cron schedules and records every run
+ * (start, end, status, details and error) in job_runs
+ */
+export class JobScheduler {
+  private db: Pool;
+  private jobs: Map<string, JobDefinition> = new Map();
+  private tasks: ScheduledTask[] = [];
+  private activeRuns: Map<string, Promise<void>> = new Map();
+  private state: 'stopped' | 'running' | 'paused' = 'stopped';
+  
+  /**
+   * Create a new JobScheduler instance
+   * @param db Database pool
+   */
+  constructor(db: Pool) {
+    this.db = db;
+  }
+  
+  /**
+   * Register a job; it is scheduled when the scheduler starts
+   * @param job Job definition
+   */
+  register(job: JobDefinition): void {
+    if (!cron.validate(job.schedule)) {
+      throw new Error(`Invalid cron expression for job ${job.name}: ${job.schedule}`);
+    }
+    
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job ${job.name} is already registered`);
+    }
+    
+    this.jobs.set(job.name, job);
+  }
+  
+  /**
+   * Close runs left open by a previous process and schedule every registered job
+   */
+  async start(): Promise<void> {
+    if (this.state !== 'stopped') {
+      return;
+    }
+    
+    await this.db.query(
+      `UPDATE job_runs
+       SET status = 'failure', error = 'Interrupted by shutdown', finished_at = NOW()
+       WHERE status = 'running'`
+    );
+    
+    for (const job of this.jobs.values()) {
+      this.tasks.push(cron.schedule(job.schedule, () => this.runScheduled(job)));
+      console.log(`Scheduled job ${job.name} (${job.schedule})`);
+    }
+    
+    this.state = 'running';
+  }
+  
+  /**
+   * Cancel the schedules and wait for running jobs to finish
+   */
+  async stop(): Promise<void> {
+    this.state = 'stopped';
+    
+    this.tasks.forEach(task => task.stop());
+    this.tasks = [];
+    
+    await Promise.allSettled([...this.activeRuns.values()]);
+    console.log('Job scheduler stopped');
+  }
+  
+  /**
+   * Skip scheduled runs until resumed and wait for running jobs to finish
+   */
+  async pause(): Promise<void> {
+    if (this.state !== 'running') {
+      return;
+    }
+    
+    this.state = 'paused';
+    await Promise.allSettled([...this.activeRuns.values()]);
+    console.log('Job scheduler paused');
+  }
+  
+  /**
+   * Resume scheduled runs
+   */
+  resume(): void {
+    if (this.state !== 'paused') {
+      return;
+    }
+    
+    this.state = 'running';
+    console.log('Job scheduler resumed');
+  }
+  
+  /**
+   * Get the registered jobs
+   * @returns Registered jobs with their schedules
+   */
+  getJobs(): JobInfo[] {
+    return [...this.jobs.values()].map(job => ({
+      name: job.name,
+      schedule: job.schedule,
+      description: job.description,
+      running: this.activeRuns.has(job.name)
+    }));
+  }
+  
+  /**
+   * Check whether a job is registered
+   * @param name Job name
+   * @returns True if the job exists
+   */
+  hasJob(name: string): boolean {
+    return this.jobs.has(name);
+  }
+  
+  /**
+   * Check whether a job is currently running
+   * @param name Job name
+   * @returns True if a run is in progress
+   */
+  isRunning(name: string): boolean {
+    return this.activeRuns.has(name);
+  }
+  
+  /**
+   * Start a job now, outside its schedule
+   * @param name Job name
+   * @returns ID of the job_runs row; the job keeps running in the background
+   */
+  async trigger(name: string): Promise<number> {
+    const job = this.jobs.get(name);
+    
+    if (!job) {
+      throw new Error(`Unknown job ${name}`);
+    }
+    
+    if (this.state !== 'running') {
+      throw new Error(`Job scheduler is ${this.state}`);
+    }
+    
+    return this.execute(job, 'manual');
+  }
+  
+  /**
+   * Run a job from its cron schedule unless the scheduler is paused or the job is still running
+   * @param job Job definition
+   */
+  private runScheduled(job: JobDefinition): void {
+    if (this.state !== 'running') {
+      return;
+    }
+    
+    if (this.activeRuns.has(job.name)) {
+      console.log(`Job ${job.name} is still running, skipping scheduled run`);
+      return;
+    }
+    
+    this.execute(job, 'schedule').catch(error => {
+      console.error(`Error starting job ${job.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }
+  
+  /**
+   * Record a run and execute the job in the background
+   * @param job Job definition
+   * @param trigger How the run was started
+   * @returns ID of the job_runs row
+   */
+  private async execute(job: JobDefinition, trigger: JobTrigger): Promise<number> {
+    if (this.activeRuns.has(job.name)) {
+      throw new Error(`Job ${job.name} is already running`);
+    }
+    
+    // Claim the job before the first await so concurrent triggers cannot both start it
+    const started = this.db.query(
+      `INSERT INTO job_runs (job_name, trigger, status, started_at)
+       VALUES ($1, $2, 'running', NOW())
+       RETURNING id`,
+      [job.name, trigger]
+    );
+    
+    const work = started.then(result => this.runJob(job, result.rows[0].id));
+    this.activeRuns.set(job.name, work);
+    const done = () => { this.activeRuns.delete(job.name); };
+    work.then(done, done);
+    
+    const result = await started;
+    return result.rows[0].id;
+  }
+  
+  /**
+   * Run a job and store its outcome
+   * @param job Job definition
+   * @param runId ID of the job_runs row
+   */
+  private async runJob(job: JobDefinition, runId: number): Promise<void> {
+    console.log(`Running job ${job.name} (run ${runId})`);
+    
+    let status = 'success';
+    let details: string | null = null;
+    let errorMessage: string | null = null;
+    
+    try {
+      details = (await job.run()) || null;
+    } catch (error) {
+      status = 'failure';
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Job ${job.name} failed: ${errorMessage}`);
+    }
+    
+    try {
+      await this.db.query(
+        `UPDATE job_runs
+         SET status = $1, details = $2, error = $3, finished_at = NOW()
+         WHERE id = $4`,
+        [status, details, errorMessage, runId]
+      );
+    } catch (error) {
+      console.error(`Error recording run ${runId} of job ${job.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
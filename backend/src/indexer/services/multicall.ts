@@ -0,0 +1,69 @@
+import { ethers } from 'ethers';
+import { FailoverProvider } from './failoverProvider';
+
+// Multicall3 is deployed at the same address on Base and most EVM chains
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Maximum number of calls aggregated into one eth_call
+const MULTICALL_CHUNK_SIZE = 100;
+
+const multicallInterface = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'
+]);
+
+/**
+ * A read-only call to batch
+ */
+export interface Call {
+  target: string;
+  callData: string;
+}
+
+/**
+ * Outcome of a single batched call
+ */
+export interface CallResult {
+  success: boolean;
+  returnData: string;
+}
+
+/**
+ * Run read-only calls through Multicall3, falling back to one eth_call per call
+ * when the aggregate call fails (e.g. Multicall3 is not deployed on the chain)
+ * @param provider Provider for the chain
+ * @param calls Calls to run
+ * @returns One result per call, in order; failed calls have success false
+ */
+export async function multicall(provider: FailoverProvider, calls: Call[]): Promise<CallResult[]> {
+  const results: CallResult[] = [];
+  
+  for (let i = 0; i < calls.length; i += MULTICALL_CHUNK_SIZE) {
+    const chunk = calls.slice(i, i + MULTICALL_CHUNK_SIZE);
+    
+    try {
+      const data = await provider.call({
+        to: MULTICALL3_ADDRESS,
+        data: multicallInterface.encodeFunctionData('aggregate3', [
+          chunk.map(call => ({ target: call.target, allowFailure: true, callData: call.callData }))
+        ])
+      });
+      
+      const [returnData] = multicallInterface.decodeFunctionResult('aggregate3', data);
+      for (const result of returnData) {
+        results.push({ success: result.success, returnData: result.returnData });
+      }
+    } catch (error) {
+      console.warn(`Multicall failed for chain ${provider.chainId}, falling back to individual calls: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      
+      for (const call of chunk) {
+        try {
+          results.push({ success: true, returnData: await provider.call({ to: call.target, data: call.callData }) });
+        } catch {
+          results.push({ success: false, returnData: '0x' });
+        }
+      }
+    }
+  }
+  
+  return results;
+}
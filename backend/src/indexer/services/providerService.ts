@@ -0,0 +1,75 @@
+import { ChainConfig } from '../config/chains';
+import { EndpointHealth, FailoverProvider } from './failoverProvider';
+
+/**
+ * Service that owns the shared RPC provider of every chain
+ */
+export class ProviderService {
+  private providers: Map<number, FailoverProvider> = new Map();
+  
+  /**
+   * Create (or replace) the provider for a chain
+   * @param config Chain configuration
+   * @returns The chain's provider
+   */
+  setProvider(config: ChainConfig): FailoverProvider {
+    this.removeProvider(config.chainId);
+    
+    const provider = new FailoverProvider(config.chainId, config.rpcUrls);
+    provider.startHeadMonitor();
+    this.providers.set(config.chainId, provider);
+    
+    return provider;
+  }
+  
+  /**
+   * Stop and remove the provider for a chain
+   * @param chainId Chain ID
+   */
+  removeProvider(chainId: number): void {
+    const provider = this.providers.get(chainId);
+    
+    if (provider) {
+      provider.destroy();
+      this.providers.delete(chainId);
+    }
+  }
+  
+  /**
+   * Check whether a chain has a provider
+   * @param chainId Chain ID
+   * @returns True if a provider is configured
+   */
+  hasProvider(chainId: number): boolean {
+    return this.providers.has(chainId);
+  }
+  
+  /**
+   * Get the provider for a specific chain
+   * @param chainId Chain ID
+   * @returns FailoverProvider instance
+   */
+  getProvider(chainId: number): FailoverProvider {
+    const provider = this.providers.get(chainId);
+    
+    if (!provider) {
+      throw new Error(`No provider configured for chain ${chainId}`);
+    }
+    
+    return provider;
+  }
+  
+  /**
+   * Get endpoint health for every chain
+   * @returns Endpoint health keyed by chain ID
+   */
+  getHealth(): Record<number, EndpointHealth[]> {
+    const health: Record<number, EndpointHealth[]> = {};
+    
+    for (const [chainId, provider] of this.providers) {
+      health[chainId] = provider.getHealth();
+    }
+    
+    return health;
+  }
+}
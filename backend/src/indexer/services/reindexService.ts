@@ -0,0 +1,322 @@
+import { Pool } from 'pg';
+import { formatDuration, intervalToDuration } from 'date-fns';
+import { loadChainConfig } from '../config/chains';
+import { EventListener } from '../listeners/eventListener';
+import { EventProcessor } from '../processors/eventProcessor';
+import { BlockService } from './blockService';
+import { ProviderService } from './providerService';
+import { ReorgService } from './reorgService';
+import { isRangeLimitError } from './failoverProvider';
+import { resolveFinality } from './finality';
+
+// Smallest range tried when the provider keeps rejecting the batch size
+const MIN_BLOCKS_PER_BATCH = 10;
+
+/**
+ * Options for a reindex run
+ */
+export interface ReindexOptions {
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  dryRun?: boolean;
+}
+
+/**
+ * Result of a reindex run
+ */
+export interface ReindexResult {
+  jobId: number | null;
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  resumedFrom: number;
+  logsFetched: number;
+  eventsApplied: number;
+  eventCounts: Record<string, number>;
+  dryRun: boolean;
+}
+
+/**
+ * Service that reindexes an arbitrary block range with the live listener and processor logic.
+ * Progress is checkpointed in reindex_jobs inside each batch transaction, so an interrupted run
+ * resumes where it stopped. The live indexer's checkpoint, block hashes and providers are never touched.
+ */
+export class ReindexService {
+  private db: Pool;
+  private reorgService: ReorgService;
+  private eventProcessor: EventProcessor;
+  
+  /**
+   * Create a new ReindexService instance
+   * @param db Database pool
+   * @param reorgService Service passed to the listener and processor
+   */
+  constructor(db: Pool, reorgService: ReorgService) {
+    this.db = db;
+    this.reorgService = reorgService;
+    this.eventProcessor = new EventProcessor(db, reorgService);
+  }
+  
+  /**
+   * Find an unfinished job for the same range, or create a new one
+   * @param options Reindex options
+   * @returns Job ID and the first block still to be indexed
+   */
+  private async startJob(options: ReindexOptions): Promise<{ jobId: number; resumeFrom: number }> {
+    const existing = await this.db.query(
+      `SELECT id, last_block FROM reindex_jobs
+       WHERE chain_id = $1 AND from_block = $2 AND to_block = $3 AND status <> 'completed'
+       ORDER BY id DESC LIMIT 1`,
+      [options.chainId, options.fromBlock, options.toBlock]
+    );
+    
+    if (existing.rows.length > 0) {
+      const row = existing.rows[0];
+      await this.db.query(
+        `UPDATE reindex_jobs SET status = 'running', error = NULL, updated_at = NOW() WHERE id = $1`,
+        [row.id]
+      );
+      
+      return {
+        jobId: row.id,
+        resumeFrom: row.last_block === null ? options.fromBlock : Number(row.last_block) + 1
+      };
+    }
+    
+    const created = await this.db.query(
+      `INSERT INTO reindex_jobs (chain_id, from_block, to_block, status, events_applied, created_at, updated_at)
+       VALUES ($1, $2, $3, 'running', 0, NOW(), NOW())
+       RETURNING id`,
+      [options.chainId, options.fromBlock, options.toBlock]
+    );
+    
+    return { jobId: created.rows[0].id, resumeFrom: options.fromBlock };
+  }
+  
+  /**
+   * Queue a range for the reindex-queue job. An unfinished job for the same range is re-queued
+   * and resumes from its last committed batch.
+   * @param chainId Chain ID
+   * @param fromBlock First block to reindex
+   * @param toBlock Last block to reindex
+   * @returns ID of the queued job
+   */
+  async enqueue(chainId: number, fromBlock: number, toBlock: number): Promise<number> {
+    if (fromBlock > toBlock) {
+      throw new Error(`Invalid range: from block ${fromBlock} is above to block ${toBlock}`);
+    }
+    
+    const existing = await this.db.query(
+      `UPDATE reindex_jobs SET status = 'queued', error = NULL, updated_at = NOW()
+       WHERE id = (
+         SELECT id FROM reindex_jobs
+         WHERE chain_id = $1 AND from_block = $2 AND to_block = $3 AND status <> 'completed'
+         ORDER BY id DESC LIMIT 1
+       )
+       RETURNING id`,
+      [chainId, fromBlock, toBlock]
+    );
+    
+    if (existing.rows.length > 0) {
+      return existing.rows[0].id;
+    }
+    
+    const created = await this.db.query(
+      `INSERT INTO reindex_jobs (chain_id, from_block, to_block, status, events_applied, created_at, updated_at)
+       VALUES ($1, $2, $3, 'queued', 0, NOW(), NOW())
+       RETURNING id`,
+      [chainId, fromBlock, toBlock]
+    );
+    
+    return created.rows[0].id;
+  }
+  
+  /**
+   * Run queued jobs, oldest first, until the queue is empty
+   * @param shouldStop Checked between jobs to stop early
+   * @returns Number of jobs run
+   */
+  async runQueued(shouldStop: () => boolean = () => false): Promise<number> {
+    let processed = 0;
+    
+    while (!shouldStop()) {
+      const next = await this.db.query(
+        `SELECT id, chain_id, from_block, to_block FROM reindex_jobs
+         WHERE status = 'queued'
+         ORDER BY id LIMIT 1`
+      );
+      
+      if (next.rows.length === 0) {
+        break;
+      }
+      
+      const job = next.rows[0];
+      processed++;
+      
+      try {
+        await this.run({ chainId: job.chain_id, fromBlock: Number(job.from_block), toBlock: Number(job.to_block) });
+      } catch (error) {
+        // Errors before the job was picked up leave it queued; fail it so the queue moves on
+        await this.db.query(
+          `UPDATE reindex_jobs SET status = 'failed', error = $1, updated_at = NOW() WHERE id = $2 AND status = 'queued'`,
+          [error instanceof Error ? error.message : 'Unknown error', job.id]
+        );
+      }
+    }
+    
+    return processed;
+  }
+  
+  /**
+   * Reindex a block range
+   * @param options Chain, range and dry-run flag
+   * @returns Reindex summary
+   */
+  async run(options: ReindexOptions): Promise<ReindexResult> {
+    const { chainId, fromBlock, toBlock } = options;
+    const dryRun = options.dryRun || false;
+    
+    if (fromBlock > toBlock) {
+      throw new Error(`Invalid range: from block ${fromBlock} is above to block ${toBlock}`);
+    }
+    
+    const config = await loadChainConfig(this.db, chainId);
+    
+    // A private provider, so enabling, updating or disabling the chain during the run cannot replace
+    // or destroy it, and removing it afterwards cannot touch the live listener's provider
+    const providers = new ProviderService();
+    const provider = providers.setProvider(config);
+    const blockService = new BlockService(this.db, providers);
+    
+    let jobId: number | null = null;
+    
+    try {
+      const head = await provider.getBlockNumber();
+      if (toBlock > head - config.confirmations) {
+        throw new Error(`To block ${toBlock} is too close to the chain head ${head}; leave at least ${config.confirmations} blocks`);
+      }
+      
+      // Reindexed rows settle against the finality of the chain when the run started
+      const finality = await resolveFinality(provider, config, head);
+      
+      let cursor = fromBlock;
+      if (!dryRun) {
+        const job = await this.startJob(options);
+        jobId = job.jobId;
+        cursor = job.resumeFrom;
+      }
+      
+      const result: ReindexResult = {
+        jobId,
+        chainId,
+        fromBlock,
+        toBlock,
+        resumedFrom: cursor,
+        logsFetched: 0,
+        eventsApplied: 0,
+        eventCounts: {},
+        dryRun
+      };
+      
+      console.log(`${dryRun ? 'Dry run: reindexing' : 'Reindexing'} chain ${chainId} blocks ${cursor} to ${toBlock}${jobId !== null ? ` (job ${jobId})` : ''}`);
+      
+      const listener = new EventListener(config, provider, blockService, this.reorgService);
+      const startedAt = Date.now();
+      let blocksPerBatch = config.blocksPerBatch;
+      
+      while (cursor <= toBlock) {
+        const batchEnd = Math.min(toBlock, cursor + blocksPerBatch - 1);
+        
+        let fetched;
+        try {
+          fetched = await listener.fetchEvents(cursor, batchEnd);
+        } catch (error) {
+          if (isRangeLimitError(error) && blocksPerBatch > MIN_BLOCKS_PER_BATCH) {
+            blocksPerBatch = Math.max(MIN_BLOCKS_PER_BATCH, Math.floor(blocksPerBatch / 2));
+            console.warn(`Provider rejected blocks ${cursor} to ${batchEnd}, retrying with ${blocksPerBatch} blocks per batch`);
+            continue;
+          }
+          throw error;
+        }
+        
+        for (const event of fetched.events) {
+          result.eventCounts[event.name] = (result.eventCounts[event.name] || 0) + 1;
+        }
+        result.logsFetched += fetched.logCount;
+        
+        if (!dryRun) {
+          const currentJobId = jobId;
+          const eventCount = fetched.events.length;
+          
+          // No block hash is recorded: historical blocks must not prune the live indexer's recent hashes
+          await this.eventProcessor.processBatch({
+            chainId,
+            fromBlock: cursor,
+            toBlock: batchEnd,
+            events: fetched.events,
+            lastBlock: null,
+            blocksPerBatch,
+            advanceCheckpoint: false,
+            finality,
+            writeCheckpoint: async client => {
+              await client.query(
+                `UPDATE reindex_jobs
+                 SET last_block = $1, events_applied = events_applied + $2, updated_at = NOW()
+                 WHERE id = $3`,
+                [batchEnd, eventCount, currentJobId]
+              );
+            }
+          });
+          
+          result.eventsApplied += eventCount;
+        }
+        
+        this.logProgress(result, batchEnd, startedAt);
+        cursor = batchEnd + 1;
+      }
+      
+      if (jobId !== null) {
+        await this.db.query(
+          `UPDATE reindex_jobs SET status = 'completed', completed_at = NOW(), updated_at = NOW() WHERE id = $1`,
+          [jobId]
+        );
+      }
+      
+      console.log(`${dryRun ? 'Dry run of reindex' : 'Reindex'} of chain ${chainId} complete: ${Object.values(result.eventCounts).reduce((a, b) => a + b, 0)} events from ${result.logsFetched} logs`);
+      
+      return result;
+    } catch (error) {
+      console.error(`Error reindexing chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      
+      if (jobId !== null) {
+        await this.db.query(
+          `UPDATE reindex_jobs SET status = 'failed', error = $1, updated_at = NOW() WHERE id = $2`,
+          [error instanceof Error ? error.message : 'Unknown error', jobId]
+        );
+      }
+      
+      throw error;
+    } finally {
+      providers.removeProvider(chainId);
+    }
+  }
+  
+  /**
+   * Log the progress of a run with an ETA extrapolated from this run's throughput
+   * @param result Running result
+   * @param lastBlock Last block processed
+   * @param startedAt Start time of this run in ms
+   */
+  private logProgress(result: ReindexResult, lastBlock: number, startedAt: number): void {
+    const total = result.toBlock - result.fromBlock + 1;
+    const done = lastBlock - result.fromBlock + 1;
+    const doneThisRun = lastBlock - result.resumedFrom + 1;
+    const remaining = result.toBlock - lastBlock;
+    const elapsedMs = Date.now() - startedAt;
+    const etaMs = doneThisRun > 0 ? Math.round(elapsedMs / doneThisRun * remaining) : 0;
+    const eta = formatDuration(intervalToDuration({ start: 0, end: etaMs })) || '0 seconds';
+    
+    console.log(`[chain ${result.chainId}] ${(done / total * 100).toFixed(1)}% - block ${lastBlock}/${result.toBlock}, ${result.logsFetched} logs, ETA ${eta}`);
+  }
+}
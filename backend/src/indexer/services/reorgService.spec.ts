@@ -0,0 +1,190 @@
+import { ethers } from 'ethers';
+import { Pool } from 'pg';
+import { ReorgService } from './reorgService';
+import { FailoverProvider } from './failoverProvider';
+import { rebuildRollups } from '../analytics/rollups';
+import { createTestDb, insertChain } from '../../testing/testDb';
+
+const CHAIN_ID = 31337;
+
+/**
+ * Provider whose canonical chain is a map of block number to hash
+ */
+function fakeProvider(canonical: Map<number, string>, lookups: number[] = []): FailoverProvider {
+  return {
+    getBlock: async (blockNumber: number) => {
+      lookups.push(blockNumber);
+      return canonical.has(blockNumber) ? { number: blockNumber, hash: canonical.get(blockNumber) } : null;
+    }
+  } as unknown as FailoverProvider;
+}
+
+/**
+ * Block header with a hash derived from its number and branch
+ */
+function block(blockNumber: number, branch = 'a'): ethers.Block {
+  return { number: blockNumber, hash: `0x${branch}${blockNumber}`, parentHash: `0x${branch}${blockNumber - 1}` } as ethers.Block;
+}
+
+/**
+ * Insert a burn Transfer at a block
+ */
+async function insertBurn(pool: Pool, blockNumber: number, timestamp: string, amount: number): Promise<void> {
+  await pool.query(
+    `INSERT INTO burn_events
+     (chain_id, transaction_hash, block_number, block_timestamp, user_address, xen_amount_direct,
+      contract_address, event_type, log_index)
+     VALUES ($1, $2, $3, $4, '0xuser', $5, '0xxen', 'Transfer', 0)`,
+    [CHAIN_ID, `0xtx${blockNumber}`, blockNumber, timestamp, amount]
+  );
+}
+
+describe('ReorgService', () => {
+  let pool: Pool;
+  let reorgService: ReorgService;
+  
+  beforeEach(async () => {
+    pool = createTestDb().pool;
+    reorgService = new ReorgService(pool);
+    await insertChain(pool, CHAIN_ID, 105);
+  });
+  
+  describe('findOrphanedBlock', () => {
+    it('finds an orphaned newest tip block', async () => {
+      await reorgService.recordBlock(CHAIN_ID, block(100));
+      await reorgService.recordBlock(CHAIN_ID, block(103), undefined, true);
+      await reorgService.recordBlock(CHAIN_ID, block(104, 'b'), undefined, true); // Tip block of a branch that lost
+      
+      const canonical = new Map([[100, '0xa100'], [103, '0xa103'], [104, '0xa104']]);
+      
+      expect(await reorgService.findOrphanedBlock(CHAIN_ID, fakeProvider(canonical), 100)).toBe(104);
+    });
+    
+    it('only looks up the checkpoint block and the newest tip block', async () => {
+      await reorgService.recordBlock(CHAIN_ID, block(100));
+      for (let blockNumber = 101; blockNumber <= 110; blockNumber++) {
+        await reorgService.recordBlock(CHAIN_ID, block(blockNumber), undefined, true);
+      }
+      
+      const canonical = new Map(Array.from({ length: 11 }, (_, i) => [100 + i, `0xa${100 + i}`] as [number, string]));
+      const lookups: number[] = [];
+      
+      expect(await reorgService.findOrphanedBlock(CHAIN_ID, fakeProvider(canonical, lookups), 100)).toBeNull();
+      expect(lookups).toEqual([100, 110]);
+    });
+    
+    it('checks the last recorded block at or below the checkpoint', async () => {
+      await reorgService.recordBlock(CHAIN_ID, block(98, 'b'));
+      await reorgService.recordBlock(CHAIN_ID, block(102));
+      
+      const canonical = new Map([[98, '0xa98'], [102, '0xa102']]);
+      
+      expect(await reorgService.findOrphanedBlock(CHAIN_ID, fakeProvider(canonical), 100)).toBe(98);
+    });
+    
+    it('returns null when every recorded block is canonical', async () => {
+      await reorgService.recordBlock(CHAIN_ID, block(100));
+      await reorgService.recordBlock(CHAIN_ID, block(103));
+      
+      const canonical = new Map([[100, '0xa100'], [103, '0xa103']]);
+      
+      expect(await reorgService.findOrphanedBlock(CHAIN_ID, fakeProvider(canonical), 100)).toBeNull();
+    });
+  });
+  
+  describe('recordBlock', () => {
+    it('prunes checkpoint and tip blocks separately', async () => {
+      await reorgService.recordBlock(CHAIN_ID, block(100));
+      await reorgService.recordBlock(CHAIN_ID, block(20000), undefined, true); // Tip far ahead of a backfilling checkpoint
+      await reorgService.recordBlock(CHAIN_ID, block(20001), undefined, true);
+      await reorgService.recordBlock(CHAIN_ID, block(30500), undefined, true);
+      
+      const recorded = await pool.query(`SELECT block_number, is_tip FROM indexed_blocks WHERE chain_id = $1 ORDER BY block_number`, [CHAIN_ID]);
+      expect(recorded.rows.map(row => [Number(row.block_number), row.is_tip])).toEqual([[100, false], [30500, true]]);
+    });
+  });
+  
+  describe('hasParentMismatch', () => {
+    it('compares the parent hash with the recorded block', async () => {
+      await reorgService.recordBlock(CHAIN_ID, block(100));
+      
+      expect(await reorgService.hasParentMismatch(CHAIN_ID, block(101))).toBe(false);
+      expect(await reorgService.hasParentMismatch(CHAIN_ID, block(101, 'b'))).toBe(true);
+      expect(await reorgService.hasParentMismatch(CHAIN_ID, block(110, 'b'))).toBe(false);
+    });
+  });
+  
+  describe('rollback', () => {
+    beforeEach(async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      
+      await insertBurn(pool, 100, '2025-01-01 10:00:00', 5);
+      await insertBurn(pool, 104, '2025-01-01 10:30:00', 7);
+      await insertBurn(pool, 105, '2025-01-01 11:00:00', 9);
+      
+      await pool.query(
+        `INSERT INTO burn_positions
+         (chain_id, nft_id, user_address, xen_burned_total, lock_period_days, maturity_timestamp,
+          mint_transaction_hash, mint_block_timestamp, mint_block_number, status,
+          claimed_transaction_hash, claimed_block_number, claimed_xburn_amount)
+         VALUES
+         ($1, '1', '0xuser', 5, 30, '2025-01-31', '0xtx90', '2025-01-01 09:00:00', 90, 'claimed', '0xtx104', 104, 3),
+         ($1, '2', '0xuser', 7, 30, '2025-01-31', '0xtx104', '2025-01-01 10:30:00', 104, 'locked', NULL, NULL, NULL)`,
+        [CHAIN_ID]
+      );
+      
+      for (const blockNumber of [100, 104, 105]) {
+        await reorgService.recordBlock(CHAIN_ID, block(blockNumber));
+      }
+      
+      await pool.query(
+        `INSERT INTO block_coverage (chain_id, from_block, to_block, scanned_at) VALUES ($1, 90, 105, NOW())`,
+        [CHAIN_ID]
+      );
+      
+      await rebuildRollups(pool, CHAIN_ID);
+    });
+    
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+    
+    it('removes rows above the common ancestor and reverts orphaned claims', async () => {
+      const result = await reorgService.rollback(CHAIN_ID, 100, 104, '0xa104', '0xb104');
+      
+      expect(result).toEqual({ commonAncestor: 100, eventsRemoved: 2, positionsRemoved: 1, positionsReverted: 1 });
+      
+      const events = await pool.query(`SELECT block_number FROM burn_events WHERE chain_id = $1`, [CHAIN_ID]);
+      expect(events.rows.map(row => Number(row.block_number))).toEqual([100]);
+      
+      const positions = await pool.query(`SELECT nft_id, status, claimed_block_number FROM burn_positions`);
+      expect(positions.rows).toEqual([{ nft_id: '1', status: 'locked', claimed_block_number: null }]);
+      
+      const recorded = await pool.query(`SELECT block_number FROM indexed_blocks WHERE chain_id = $1`, [CHAIN_ID]);
+      expect(recorded.rows.map(row => Number(row.block_number))).toEqual([100]);
+      
+      const coverage = await pool.query(`SELECT from_block, to_block FROM block_coverage WHERE chain_id = $1`, [CHAIN_ID]);
+      expect(coverage.rows.map(row => [Number(row.from_block), Number(row.to_block)])).toEqual([[90, 100]]);
+      
+      const chain = await pool.query(`SELECT last_indexed_block FROM chains WHERE chain_id = $1`, [CHAIN_ID]);
+      expect(Number(chain.rows[0].last_indexed_block)).toBe(100);
+      
+      const log = await pool.query(`SELECT common_ancestor, depth, events_removed FROM reorg_log`);
+      expect(log.rows.map(row => [Number(row.common_ancestor), Number(row.depth), Number(row.events_removed)])).toEqual([[100, 4, 2]]);
+    });
+    
+    it('recomputes the rollup buckets of the removed events', async () => {
+      await reorgService.rollback(CHAIN_ID, 100, 104, '0xa104', '0xb104');
+      
+      const hourly = await pool.query(
+        `SELECT bucket, burn_volume, tx_count FROM burn_rollups_hourly WHERE chain_id = $1 ORDER BY bucket`,
+        [CHAIN_ID]
+      );
+      expect(hourly.rows.map(row => [new Date(row.bucket).toISOString(), Number(row.burn_volume), Number(row.tx_count)]))
+        .toEqual([['2025-01-01T10:00:00.000Z', 5, 1]]);
+      
+      const daily = await pool.query(`SELECT burn_volume FROM burn_rollups_daily WHERE chain_id = $1`, [CHAIN_ID]);
+      expect(daily.rows.map(row => Number(row.burn_volume))).toEqual([5]);
+    });
+  });
+});
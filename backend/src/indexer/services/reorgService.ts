@@ -0,0 +1,275 @@
+import { ethers } from 'ethers';
+import { Pool, PoolClient } from 'pg';
+import { FailoverProvider } from './failoverProvider';
+import { eventSpan, refreshRollups } from '../analytics/rollups';
+
+// Number of recent blocks per chain whose hashes are kept for reorg detection, for checkpoint and tip blocks each
+const BLOCK_HASH_RETENTION = 10000;
+
+// Maximum number of recorded blocks compared against the chain when searching for a common ancestor
+const MAX_ANCESTOR_LOOKUPS = 128;
+
+/**
+ * Result of rolling back a chain to a common ancestor
+ */
+export interface RollbackResult {
+  commonAncestor: number;
+  eventsRemoved: number;
+  positionsRemoved: number;
+  positionsReverted: number;
+}
+
+/**
+ * Service for recording indexed block hashes and recovering from chain reorganizations
+ */
+export class ReorgService {
+  private db: Pool;
+  
+  /**
+   * Create a new ReorgService instance
+   * @param db Database pool
+   */
+  constructor(db: Pool) {
+    this.db = db;
+  }
+  
+  /**
+   * Record the hash of an indexed block. Checkpoint and tip blocks are pruned separately, so tip
+   * blocks far above a checkpoint that is still catching up never evict the hashes near it.
+   * @param chainId Chain ID
+   * @param block Block header
+   * @param client Optional client, to record the block inside an open transaction
+   * @param tip Whether the block was indexed as a real-time tip block rather than by a checkpoint batch
+   */
+  async recordBlock(chainId: number, block: ethers.Block, client?: PoolClient, tip = false): Promise<void> {
+    const db = client || this.db;
+    
+    await db.query(
+      `INSERT INTO indexed_blocks (chain_id, block_number, block_hash, parent_hash, is_tip, indexed_at)
+       VALUES ($1, $2, $3, $4, $5, NOW())
+       ON CONFLICT (chain_id, block_number)
+       DO UPDATE SET block_hash = $3, parent_hash = $4, is_tip = $5, indexed_at = NOW()`,
+      [chainId, block.number, block.hash, block.parentHash, tip]
+    );
+    
+    await db.query(
+      `DELETE FROM indexed_blocks WHERE chain_id = $1 AND is_tip = $2 AND block_number < $3`,
+      [chainId, tip, block.number - BLOCK_HASH_RETENTION]
+    );
+  }
+  
+  /**
+   * Get the recorded hash of an indexed block
+   * @param chainId Chain ID
+   * @param blockNumber Block number
+   * @returns Block hash, or null if the block was not recorded
+   */
+  async getRecordedHash(chainId: number, blockNumber: number): Promise<string | null> {
+    const result = await this.db.query(
+      `SELECT block_hash FROM indexed_blocks WHERE chain_id = $1 AND block_number = $2`,
+      [chainId, blockNumber]
+    );
+    
+    return result.rows.length > 0 ? result.rows[0].block_hash : null;
+  }
+  
+  /**
+   * Check whether a new block builds on the block we recorded at its parent height
+   * @param chainId Chain ID
+   * @param block New block header
+   * @returns True if the recorded parent hash differs from the block's parent hash
+   */
+  async hasParentMismatch(chainId: number, block: ethers.Block): Promise<boolean> {
+    const recordedParentHash = await this.getRecordedHash(chainId, block.number - 1);
+    return recordedParentHash !== null && recordedParentHash !== block.parentHash;
+  }
+  
+  /**
+   * Verify that the chain is still canonical where it was recorded: the most recent recorded block at
+   * or below the checkpoint and the newest block recorded above it, such as the latest tip block.
+   * Costs at most two block lookups, however many tip blocks were recorded.
+   * @param chainId Chain ID
+   * @param provider Provider for the chain
+   * @param checkpoint Last block covered by the chain checkpoint
+   * @returns The lowest orphaned block number, or null if the recorded chain is canonical
+   */
+  async findOrphanedBlock(chainId: number, provider: FailoverProvider, checkpoint: number): Promise<number | null> {
+    const checkpointBlock = await this.db.query(
+      `SELECT block_number, block_hash FROM indexed_blocks
+       WHERE chain_id = $1 AND block_number <= $2
+       ORDER BY block_number DESC LIMIT 1`,
+      [chainId, checkpoint]
+    );
+    const newestTipBlock = await this.db.query(
+      `SELECT block_number, block_hash FROM indexed_blocks
+       WHERE chain_id = $1 AND block_number > $2
+       ORDER BY block_number DESC LIMIT 1`,
+      [chainId, checkpoint]
+    );
+    
+    for (const row of [...checkpointBlock.rows, ...newestTipBlock.rows]) {
+      const recordedNumber = Number(row.block_number);
+      const canonical = await provider.getBlock(recordedNumber);
+      
+      if (!canonical || canonical.hash !== row.block_hash) {
+        return recordedNumber;
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Find the highest recorded block below a height that is still part of the canonical chain
+   * @param chainId Chain ID
+   * @param provider Provider for the chain
+   * @param belowBlock Orphaned block number to search below
+   * @returns Common ancestor block number
+   */
+  async findCommonAncestor(chainId: number, provider: FailoverProvider, belowBlock: number): Promise<number> {
+    const result = await this.db.query(
+      `SELECT block_number, block_hash FROM indexed_blocks
+       WHERE chain_id = $1 AND block_number < $2
+       ORDER BY block_number DESC LIMIT $3`,
+      [chainId, belowBlock, MAX_ANCESTOR_LOOKUPS]
+    );
+    
+    for (const row of result.rows) {
+      const blockNumber = Number(row.block_number);
+      const canonical = await provider.getBlock(blockNumber);
+      
+      if (canonical && canonical.hash === row.block_hash) {
+        return blockNumber;
+      }
+    }
+    
+    // No recorded block matched: fall back to just below the oldest block we compared
+    const oldest = result.rows.length > 0 ? Number(result.rows[result.rows.length - 1].block_number) : belowBlock;
+    console.warn(`No common ancestor found among ${result.rows.length} recorded blocks for chain ${chainId}, rolling back to ${oldest - 1}`);
+    return oldest - 1;
+  }
+  
+  /**
+   * Remove every row derived from blocks above the common ancestor and log the reorg
+   * @param chainId Chain ID
+   * @param commonAncestor Last canonical block
+   * @param detectedBlock Block at which the reorg was detected
+   * @param orphanedHash Hash we had recorded for the detected block
+   * @param canonicalHash Hash the chain now reports for the detected block
+   * @returns Rollback summary
+   */
+  async rollback(
+    chainId: number,
+    commonAncestor: number,
+    detectedBlock: number,
+    orphanedHash: string | null,
+    canonicalHash: string | null
+  ): Promise<RollbackResult> {
+    const client = await this.db.connect();
+    
+    try {
+      await client.query('BEGIN');
+      
+      // Buckets holding orphaned events are recomputed once the events are gone
+      const orphanedSpan = await eventSpan(client, chainId, commonAncestor + 1, null);
+      
+      const events = await client.query(
+        `DELETE FROM burn_events WHERE chain_id = $1 AND block_number > $2`,
+        [chainId, commonAncestor]
+      );
+      
+      if (orphanedSpan) {
+        await refreshRollups(client, chainId, orphanedSpan);
+      }
+      
+      const positions = await client.query(
+        `DELETE FROM burn_positions WHERE chain_id = $1 AND mint_block_number > $2`,
+        [chainId, commonAncestor]
+      );
+      
+      // Positions minted before the fork whose claim or emergency end was orphaned are locked again
+      const reverted = await client.query(
+        `UPDATE burn_positions
+         SET status = 'locked',
+             claimed_transaction_hash = NULL,
+             claimed_block_timestamp = NULL,
+             claimed_block_number = NULL,
+             claimed_xburn_amount = NULL,
+             claimed_xburn_bonus = NULL,
+             updated_at = NOW()
+         WHERE chain_id = $1 AND claimed_block_number > $2`,
+        [chainId, commonAncestor]
+      );
+      
+      await client.query(
+        `DELETE FROM raw_logs WHERE chain_id = $1 AND block_number > $2`,
+        [chainId, commonAncestor]
+      );
+      
+      await client.query(
+        `DELETE FROM block_timestamps WHERE chain_id = $1 AND block_number > $2`,
+        [chainId, commonAncestor]
+      );
+      
+      await client.query(
+        `DELETE FROM indexed_blocks WHERE chain_id = $1 AND block_number > $2`,
+        [chainId, commonAncestor]
+      );
+      
+      // Orphaned blocks count as not scanned
+      await client.query(
+        `DELETE FROM block_coverage WHERE chain_id = $1 AND from_block > $2`,
+        [chainId, commonAncestor]
+      );
+      
+      await client.query(
+        `UPDATE block_coverage SET to_block = $2 WHERE chain_id = $1 AND to_block > $2`,
+        [chainId, commonAncestor]
+      );
+      
+      await client.query(
+        `UPDATE chains
+         SET last_indexed_block = LEAST(last_indexed_block, $2), updated_at = NOW()
+         WHERE chain_id = $1`,
+        [chainId, commonAncestor]
+      );
+      
+      const rollbackResult: RollbackResult = {
+        commonAncestor,
+        eventsRemoved: events.rowCount || 0,
+        positionsRemoved: positions.rowCount || 0,
+        positionsReverted: reverted.rowCount || 0
+      };
+      
+      await client.query(
+        `INSERT INTO reorg_log
+         (chain_id, detected_block, common_ancestor, depth, orphaned_hash, canonical_hash,
+          events_removed, positions_removed, positions_reverted, detected_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())`,
+        [
+          chainId,
+          detectedBlock,
+          commonAncestor,
+          detectedBlock - commonAncestor,
+          orphanedHash,
+          canonicalHash,
+          rollbackResult.eventsRemoved,
+          rollbackResult.positionsRemoved,
+          rollbackResult.positionsReverted
+        ]
+      );
+      
+      await client.query('COMMIT');
+      
+      console.warn(`Rolled back chain ${chainId} to block ${commonAncestor}: ${rollbackResult.eventsRemoved} events removed, ${rollbackResult.positionsRemoved} positions removed, ${rollbackResult.positionsReverted} positions reverted`);
+      
+      return rollbackResult;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(`Error rolling back chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
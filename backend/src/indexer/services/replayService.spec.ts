@@ -0,0 +1,130 @@
+import { ethers } from 'ethers';
+import { Pool } from 'pg';
+import { ReplayService } from './replayService';
+import { ReorgService } from './reorgService';
+import { EventProcessor } from '../processors/eventProcessor';
+import { loadChainConfig } from '../config/chains';
+import { DecodedEvent, LogDecoder, RawLog, TransferEventData } from '../decoders/logDecoder';
+import { createTestDb, insertChain } from '../../testing/testDb';
+import XENCryptoABI from '../../contracts/XENCrypto.json';
+
+const xenCryptoInterface = new ethers.Interface(XENCryptoABI);
+
+const CHAIN_ID = 31337;
+const XEN = '0x0000000000000000000000000000000000000a01';
+const PROTOCOL = '0x00000000000000000000000000000000000000c1';
+const USER = '0x00000000000000000000000000000000000000b1';
+
+/**
+ * Raw XEN Transfer to address(0)
+ */
+function burnLog(transactionHash: string, logIndex: number, amount: bigint): RawLog {
+  const { topics, data } = xenCryptoInterface.encodeEventLog('Transfer', [USER, ethers.ZeroAddress, amount]);
+  
+  return {
+    address: XEN,
+    topics,
+    data,
+    blockNumber: 100,
+    blockHash: '0x' + '11'.repeat(32),
+    transactionHash,
+    transactionIndex: 0,
+    logIndex
+  };
+}
+
+describe('ReplayService', () => {
+  let pool: Pool;
+  let eventProcessor: EventProcessor;
+  let replayService: ReplayService;
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    
+    pool = createTestDb().pool;
+    eventProcessor = new EventProcessor(pool, new ReorgService(pool));
+    replayService = new ReplayService(pool, eventProcessor);
+    await insertChain(pool, CHAIN_ID, 100);
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  /**
+   * Index decoded events the way the listener stores a batch
+   */
+  async function indexBatch(events: DecodedEvent[], finalBlock = 100): Promise<void> {
+    await eventProcessor.processBatch({
+      chainId: CHAIN_ID,
+      fromBlock: 100,
+      toBlock: 100,
+      events,
+      lastBlock: null,
+      blocksPerBatch: 1000,
+      advanceCheckpoint: true,
+      finality: { safeBlock: 100, finalBlock }
+    });
+  }
+  
+  /**
+   * Decode a burn made through another protocol
+   */
+  async function decodedBurn(transactionHash: string, logIndex: number, amount: bigint): Promise<DecodedEvent> {
+    const decoder = new LogDecoder(await loadChainConfig(pool, CHAIN_ID));
+    const decoded = decoder.decode(burnLog(transactionHash, logIndex, amount), new Date('2025-01-01T10:00:00Z'))!;
+    (decoded.data as TransferEventData).caller = PROTOCOL;
+    return decoded;
+  }
+  
+  /**
+   * Finality of the chain's burn events by log index
+   */
+  async function burnFinality(): Promise<string[]> {
+    const burns = await pool.query(`SELECT finality FROM burn_events WHERE chain_id = $1 ORDER BY log_index`, [CHAIN_ID]);
+    return burns.rows.map(row => row.finality);
+  }
+  
+  it('keeps the caller and source of burns made outside XBurn', async () => {
+    const decoder = new LogDecoder(await loadChainConfig(pool, CHAIN_ID));
+    const blockTimestamp = new Date('2025-01-01T10:00:00Z');
+    
+    const viaProtocol = decoder.decode(burnLog('0x' + 'a1'.repeat(32), 0, 5n), blockTimestamp)!;
+    (viaProtocol.data as TransferEventData).caller = PROTOCOL;
+    const direct = decoder.decode(burnLog('0x' + 'a2'.repeat(32), 1, 7n), blockTimestamp)!;
+    (direct.data as TransferEventData).caller = XEN;
+    
+    await indexBatch([viaProtocol, direct]);
+    
+    const result = await replayService.replayChain(CHAIN_ID);
+    expect(result).toMatchObject({ logsReplayed: 2, eventsApplied: 2, eventsRemoved: 2 });
+    
+    const burns = await pool.query(
+      `SELECT log_index, burn_source, burn_caller FROM burn_events WHERE chain_id = $1 ORDER BY log_index`,
+      [CHAIN_ID]
+    );
+    expect(burns.rows).toEqual([
+      { log_index: 0, burn_source: 'protocol', burn_caller: PROTOCOL },
+      { log_index: 1, burn_source: 'direct', burn_caller: XEN }
+    ]);
+  });
+  
+  it('settles replayed rows up to the checkpoint', async () => {
+    await indexBatch([await decodedBurn('0x' + 'a1'.repeat(32), 0, 5n)]);
+    expect(await burnFinality()).toEqual(['final']);
+    
+    await replayService.replayChain(CHAIN_ID);
+    
+    expect(await burnFinality()).toEqual(['final']);
+  });
+  
+  it('keeps safe rows short of final on chains that follow the safe tag', async () => {
+    await pool.query(`UPDATE chains SET finality_tag = 'safe' WHERE chain_id = $1`, [CHAIN_ID]);
+    await indexBatch([await decodedBurn('0x' + 'a1'.repeat(32), 0, 5n)], 99);
+    expect(await burnFinality()).toEqual(['safe']);
+    
+    await replayService.replayChain(CHAIN_ID);
+    
+    expect(await burnFinality()).toEqual(['safe']);
+  });
+});
@@ -0,0 +1,200 @@
+import { Pool, PoolClient } from 'pg';
+import { ChainConfig, loadChainConfig } from '../config/chains';
+import { LogDecoder, RawLog } from '../decoders/logDecoder';
+import { EventProcessor } from '../processors/eventProcessor';
+import { rebuildChainRollups } from '../analytics/rollups';
+import { FinalityThresholds } from './finality';
+
+// Number of raw logs loaded per query while replaying
+const REPLAY_PAGE_SIZE = 5000;
+
+/**
+ * Options for a replay
+ */
+export interface ReplayOptions {
+  force?: boolean;
+}
+
+/**
+ * Result of replaying a chain
+ */
+export interface ReplayResult {
+  chainId: number;
+  logsReplayed: number;
+  eventsApplied: number;
+  eventsRemoved: number;
+  positionsRemoved: number;
+}
+
+/**
+ * Service that rebuilds burn_events and burn_positions from stored raw logs, without any RPC access
+ */
+export class ReplayService {
+  private db: Pool;
+  private eventProcessor: EventProcessor;
+  
+  /**
+   * Create a new ReplayService instance
+   * @param db Database pool
+   * @param eventProcessor Processor used to apply the decoded events
+   */
+  constructor(db: Pool, eventProcessor: EventProcessor) {
+    this.db = db;
+    this.eventProcessor = eventProcessor;
+  }
+  
+  /**
+   * Delete the chain's events and positions and rebuild them, and the chain's rollups, from raw_logs in (block, logIndex) order.
+   * Everything happens in one transaction, so readers see either the old or the rebuilt data.
+   * @param chainId Chain ID
+   * @param options Replay options; force replays even if some events predate raw log storage
+   * @returns Replay summary
+   */
+  async replayChain(chainId: number, options: ReplayOptions = {}): Promise<ReplayResult> {
+    const chainConfig = await loadChainConfig(this.db, chainId);
+    const logDecoder = new LogDecoder(chainConfig);
+    
+    // Events indexed before raw logs were stored cannot be rebuilt and would be lost
+    const legacy = await this.db.query(
+      `SELECT COUNT(*) AS count FROM burn_events WHERE chain_id = $1 AND raw_log IS NULL`,
+      [chainId]
+    );
+    const legacyCount = parseInt(legacy.rows[0].count);
+    
+    if (legacyCount > 0 && !options.force) {
+      throw new Error(`${legacyCount} events on chain ${chainId} have no stored raw log; re-index them from RPC first or replay with --force to drop them`);
+    }
+    
+    const client = await this.db.connect();
+    
+    try {
+      await client.query('BEGIN');
+      await this.eventProcessor.lockChain(client, chainId);
+      
+      const thresholds = await this.replayThresholds(client, chainId, chainConfig);
+      
+      const events = await client.query(`DELETE FROM burn_events WHERE chain_id = $1`, [chainId]);
+      const positions = await client.query(`DELETE FROM burn_positions WHERE chain_id = $1`, [chainId]);
+      
+      const result: ReplayResult = {
+        chainId,
+        logsReplayed: 0,
+        eventsApplied: 0,
+        eventsRemoved: events.rowCount || 0,
+        positionsRemoved: positions.rowCount || 0
+      };
+      
+      // Page through raw logs with a (block, logIndex) cursor
+      let cursorBlock = -1;
+      let cursorLogIndex = -1;
+      
+      while (true) {
+        const page = await client.query(
+          `SELECT block_number, block_hash, block_timestamp, transaction_hash, transaction_index,
+                  log_index, address, topics, data
+           FROM raw_logs
+           WHERE chain_id = $1 AND (block_number > $2::bigint OR (block_number = $2::bigint AND log_index > $3::integer))
+           ORDER BY block_number, log_index
+           LIMIT $4`,
+          [chainId, cursorBlock, cursorLogIndex, REPLAY_PAGE_SIZE]
+        );
+        
+        if (page.rows.length === 0) {
+          break;
+        }
+        
+        // The logs of a transaction are decoded together, so a full page leaves its last transaction to the next one
+        const lastHash = page.rows[page.rows.length - 1].transaction_hash;
+        const rows = page.rows.length === REPLAY_PAGE_SIZE && page.rows[0].transaction_hash !== lastHash
+          ? page.rows.filter(row => row.transaction_hash !== lastHash)
+          : page.rows;
+        
+        const callers = await this.loadBurnCallers(client, chainId, rows.map(row => row.transaction_hash));
+        const rawLogs: RawLog[] = rows.map(row => ({
+          address: row.address,
+          topics: row.topics,
+          data: row.data,
+          blockNumber: Number(row.block_number),
+          blockHash: row.block_hash,
+          transactionHash: row.transaction_hash,
+          transactionIndex: row.transaction_index,
+          logIndex: row.log_index
+        }));
+        const blockTimestamps = new Map(rows.map(row => [Number(row.block_number), row.block_timestamp as Date]));
+        
+        for (const decoded of logDecoder.decodeLogs(rawLogs, blockTimestamps)) {
+          if (decoded.name === 'burnEvent' && callers.has(decoded.data.transactionHash)) {
+            decoded.data.caller = callers.get(decoded.data.transactionHash);
+          }
+          
+          await this.eventProcessor.applyEvent(client, decoded);
+          result.eventsApplied++;
+        }
+        
+        result.logsReplayed += rawLogs.length;
+        cursorBlock = rawLogs[rawLogs.length - 1].blockNumber;
+        cursorLogIndex = rawLogs[rawLogs.length - 1].logIndex;
+        
+        console.log(`Replayed ${result.logsReplayed} logs for chain ${chainId} up to block ${cursorBlock}`);
+      }
+      
+      // Rebuilt rows start out pending; settle them as far as the indexer had
+      await this.eventProcessor.promoteFinality(client, chainId, thresholds);
+      await rebuildChainRollups(client, chainId);
+      
+      await client.query('COMMIT');
+      
+      console.log(`Replay of chain ${chainId} complete: ${result.eventsApplied} events applied from ${result.logsReplayed} logs, replacing ${result.eventsRemoved} events and ${result.positionsRemoved} positions`);
+      
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(`Error replaying chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+  
+  /**
+   * Find how far the replayed rows may settle without asking a node. Everything up to the checkpoint
+   * is at least safe. The checkpoint is also final unless the chain follows the `safe` tag; then the
+   * finalized block is the highest block that was final before the replay.
+   * @param client Database client inside the replay transaction, before the rows are deleted
+   * @param chainId Chain ID
+   * @param chainConfig Chain configuration
+   * @returns Safe and final blocks
+   */
+  private async replayThresholds(client: PoolClient, chainId: number, chainConfig: ChainConfig): Promise<FinalityThresholds> {
+    const checkpoint = await client.query(`SELECT last_indexed_block FROM chains WHERE chain_id = $1`, [chainId]);
+    const safeBlock = Number(checkpoint.rows[0].last_indexed_block);
+    
+    if (chainConfig.finalityTag !== 'safe') {
+      return { safeBlock, finalBlock: safeBlock };
+    }
+    
+    const final = await client.query(
+      `SELECT MAX(block_number) AS block_number FROM burn_events WHERE chain_id = $1 AND finality = 'final'`,
+      [chainId]
+    );
+    const finalBlock = final.rows[0].block_number === null ? -1 : Number(final.rows[0].block_number);
+    
+    return { safeBlock, finalBlock: Math.min(finalBlock, safeBlock) };
+  }
+  
+  /**
+   * Load the callers recorded for burn transactions when they were first indexed
+   * @param client Database client inside the replay transaction
+   * @param chainId Chain ID
+   * @param transactionHashes Transactions of a page of raw logs
+   * @returns Caller by transaction hash, null for a contract creation
+   */
+  private async loadBurnCallers(client: PoolClient, chainId: number, transactionHashes: string[]): Promise<Map<string, string | null>> {
+    const result = await client.query(
+      `SELECT transaction_hash, caller FROM burn_callers WHERE chain_id = $1 AND transaction_hash = ANY($2)`,
+      [chainId, [...new Set(transactionHashes)]]
+    );
+    
+    return new Map(result.rows.map(row => [row.transaction_hash, row.caller]));
+  }
+}
@@ -1,31 +1,21 @@
 import { Pool } from 'pg';
-import { ethers } from 'ethers';
-import { ChainConfig } from '../config/chains';
+import { ProviderService } from '../services/providerService';
 
 /**
  * DataValidator handles validation of indexed data against blockchain state
  */
 export class DataValidator {
   private db: Pool;
-  private providers: Map<number, ethers.JsonRpcProvider> = new Map();
+  private providerService: ProviderService;
   
   /**
    * Create a new DataValidator instance
    * @param db Database pool
-   * @param chainConfigs Array of chain configurations
+   * @param providerService Shared RPC providers
    */
-  constructor(db: Pool, chainConfigs: ChainConfig[]) {
+  constructor(db: Pool, providerService: ProviderService) {
     this.db = db;
-    
-    // Initialize providers
-    for (const config of chainConfigs) {
-      if (config.enabled) {
-        this.providers.set(
-          config.chainId,
-          new ethers.JsonRpcProvider(config.rpcUrl)
-        );
-      }
-    }
+    this.providerService = providerService;
   }
   
   /**
@@ -58,14 +48,69 @@ export class DataValidator {
          VALUES ($1, $2, $3, $4, NOW())`,
         [chainId, 'daily', 'failure', `Error: ${error instanceof Error ? error.message : 'Unknown error'}`]
       );
+      
+      throw error;
     }
   }
   
   /**
-   * Detect gaps in indexed blocks
+   * Merge overlapping and adjacent scanned ranges of a chain into single rows
    * @param chainId Chain ID
    */
-  private async detectBlockGaps(chainId: number): Promise<void> {
+  async compactCoverage(chainId: number): Promise<void> {
+    const client = await this.db.connect();
+    
+    try {
+      await client.query('BEGIN');
+      
+      // Serialize with batches writing coverage for this chain
+      await client.query(`SELECT chain_id FROM chains WHERE chain_id = $1 FOR UPDATE`, [chainId]);
+      
+      const merged = await client.query(
+        `WITH ordered AS (
+           SELECT from_block, to_block, scanned_at,
+                  MAX(to_block) OVER (ORDER BY from_block, to_block ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING) AS previous_end
+           FROM block_coverage
+           WHERE chain_id = $1
+         ), islands AS (
+           SELECT from_block, to_block, scanned_at,
+                  SUM(CASE WHEN previous_end IS NULL OR from_block > previous_end + 1 THEN 1 ELSE 0 END)
+                    OVER (ORDER BY from_block, to_block) AS island
+           FROM ordered
+         )
+         SELECT MIN(from_block) AS from_block, MAX(to_block) AS to_block, MAX(scanned_at) AS scanned_at
+         FROM islands
+         GROUP BY island
+         ORDER BY 1`,
+        [chainId]
+      );
+      
+      await client.query(`DELETE FROM block_coverage WHERE chain_id = $1`, [chainId]);
+      
+      for (const row of merged.rows) {
+        await client.query(
+          `INSERT INTO block_coverage (chain_id, from_block, to_block, scanned_at)
+           VALUES ($1, $2, $3, $4)`,
+          [chainId, row.from_block, row.to_block, row.scanned_at]
+        );
+      }
+      
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+  
+  /**
+   * Detect ranges below the indexer checkpoint that were never scanned.
+   * Blocks without events are normal; only holes in block_coverage are gaps.
+   * @param chainId Chain ID
+   * @returns Number of open gaps
+   */
+  async detectBlockGaps(chainId: number): Promise<number> {
     // Get current chain state
     const chainResult = await this.db.query(
       `SELECT last_indexed_block FROM chains WHERE chain_id = $1`,
@@ -76,46 +121,50 @@ export class DataValidator {
       throw new Error(`Chain ${chainId} not found in database`);
     }
     
-    const lastIndexedBlock = chainResult.rows[0].last_indexed_block;
+    const lastIndexedBlock = Number(chainResult.rows[0].last_indexed_block);
     
-    // Get block numbers from event records
-    const eventBlocksResult = await this.db.query(
-      `SELECT DISTINCT block_number 
-       FROM burn_events 
-       WHERE chain_id = $1 
-       ORDER BY block_number`,
+    await this.compactCoverage(chainId);
+    
+    const coverageResult = await this.db.query(
+      `SELECT from_block, to_block FROM block_coverage WHERE chain_id = $1 ORDER BY from_block`,
       [chainId]
     );
     
-    const indexedBlocks = eventBlocksResult.rows.map(row => row.block_number);
-    
-    // Check for gaps in the sequence
-    if (indexedBlocks.length > 1) {
-      let previousBlock = indexedBlocks[0];
-      
-      for (let i = 1; i < indexedBlocks.length; i++) {
-        const currentBlock = indexedBlocks[i];
-        const gap = currentBlock - previousBlock;
-        
-        // If gap is more than 1 block and within reasonable range (not initial indexing)
-        if (gap > 1 && gap < 1000) {
-          console.warn(`Found block gap from ${previousBlock} to ${currentBlock} (${gap} blocks) for chain ${chainId}`);
-          
-          // Log gap for later reprocessing
-          await this.db.query(
-            `INSERT INTO block_gaps 
-             (chain_id, start_block, end_block, gap_size, detected_at)
-             VALUES ($1, $2, $3, $4, NOW())
-             ON CONFLICT (chain_id, start_block) DO NOTHING`,
-            [chainId, previousBlock, currentBlock, gap]
-          );
-        }
-        
-        previousBlock = currentBlock;
+    // Holes between consecutive scanned ranges, up to the checkpoint
+    const gaps: { startBlock: number; endBlock: number }[] = [];
+    for (let i = 1; i < coverageResult.rows.length; i++) {
+      const startBlock = Number(coverageResult.rows[i - 1].to_block) + 1;
+      const endBlock = Math.min(Number(coverageResult.rows[i].from_block) - 1, lastIndexedBlock);
+      
+      if (startBlock <= endBlock) {
+        gaps.push({ startBlock, endBlock });
       }
     }
     
-    console.log(`Block gap detection completed for chain ${chainId}`);
+    for (const gap of gaps) {
+      console.warn(`Found unscanned blocks ${gap.startBlock} to ${gap.endBlock} for chain ${chainId}`);
+      
+      // Log gap for later reprocessing
+      await this.db.query(
+        `INSERT INTO block_gaps 
+         (chain_id, start_block, end_block, gap_size, detected_at)
+         VALUES ($1, $2, $3, $4, NOW())
+         ON CONFLICT (chain_id, start_block)
+         DO UPDATE SET end_block = $3, gap_size = $4, detected_at = NOW(), processed = false`,
+        [chainId, gap.startBlock, gap.endBlock, gap.endBlock - gap.startBlock + 1]
+      );
+    }
+    
+    // Gaps covered in the meantime, e.g. by a manual reindex, need no repair
+    await this.db.query(
+      `UPDATE block_gaps SET processed = true
+       WHERE chain_id = $1 AND processed = false AND NOT (start_block = ANY($2::bigint[]))`,
+      [chainId, gaps.map(gap => gap.startBlock)]
+    );
+    
+    console.log(`Block gap detection completed for chain ${chainId}: ${gaps.length} gaps`);
+    
+    return gaps.length;
   }
   
   /**
@@ -156,6 +205,8 @@ export class DataValidator {
          VALUES ($1, $2, $3, $4, NOW())`,
         [chainId, 'weekly', 'failure', `Error: ${error instanceof Error ? error.message : 'Unknown error'}`]
       );
+      
+      throw error;
     }
   }
   
@@ -0,0 +1,120 @@
+import { Pool } from 'pg';
+import { DataValidator } from './dataValidator';
+import { ReindexService } from '../services/reindexService';
+
+// Maximum number of gaps repaired per chain in one run
+const MAX_GAPS_PER_RUN = 20;
+
+/**
+ * GapRepairWorker re-scans block ranges that were never covered by the indexer
+ * and records the outcome of every repair in validation_stats
+ */
+export class GapRepairWorker {
+  private db: Pool;
+  private dataValidator: DataValidator;
+  private reindexService: ReindexService;
+  private currentRun: Promise<void> | null = null;
+  private stopped: boolean = false;
+  
+  /**
+   * Create a new GapRepairWorker instance
+   * @param db Database pool
+   * @param dataValidator Validator that detects gaps from block coverage
+   * @param reindexService Service used to re-scan gaps
+   */
+  constructor(db: Pool, dataValidator: DataValidator, reindexService: ReindexService) {
+    this.db = db;
+    this.dataValidator = dataValidator;
+    this.reindexService = reindexService;
+  }
+  
+  /**
+   * Stop repairing after the current gap and wait for a running repair to finish
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    
+    if (this.currentRun) {
+      await Promise.allSettled([this.currentRun]);
+    }
+  }
+  
+  /**
+   * Detect and repair gaps for every chain, unless a run is already in progress
+   */
+  async run(): Promise<void> {
+    if (this.currentRun) {
+      return;
+    }
+    
+    this.currentRun = (async () => {
+      try {
+        const chainsResult = await this.db.query('SELECT chain_id FROM chains WHERE enabled = true');
+        
+        for (const row of chainsResult.rows) {
+          if (this.stopped) {
+            break;
+          }
+          await this.repairChain(row.chain_id);
+        }
+      } catch (error) {
+        console.error(`Error running gap repair: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw error;
+      } finally {
+        this.currentRun = null;
+      }
+    })();
+    
+    await this.currentRun;
+  }
+  
+  /**
+   * Detect gaps for a chain and re-scan the open ones
+   * @param chainId Chain ID
+   */
+  async repairChain(chainId: number): Promise<void> {
+    await this.dataValidator.detectBlockGaps(chainId);
+    
+    const gapsResult = await this.db.query(
+      `SELECT start_block, end_block FROM block_gaps
+       WHERE chain_id = $1 AND processed = false
+       ORDER BY start_block
+       LIMIT $2`,
+      [chainId, MAX_GAPS_PER_RUN]
+    );
+    
+    for (const gap of gapsResult.rows) {
+      if (this.stopped) {
+        break;
+      }
+      
+      const startBlock = Number(gap.start_block);
+      const endBlock = Number(gap.end_block);
+      
+      try {
+        const result = await this.reindexService.run({ chainId, fromBlock: startBlock, toBlock: endBlock });
+        
+        await this.db.query(
+          `UPDATE block_gaps SET processed = true WHERE chain_id = $1 AND start_block = $2`,
+          [chainId, startBlock]
+        );
+        
+        await this.db.query(
+          `INSERT INTO validation_stats
+           (chain_id, validation_type, status, details, validated_at)
+           VALUES ($1, $2, $3, $4, NOW())`,
+          [chainId, 'gap_repair', 'success', `Re-scanned blocks ${startBlock} to ${endBlock}: ${result.eventsApplied} events from ${result.logsFetched} logs`]
+        );
+      } catch (error) {
+        console.error(`Error repairing gap ${startBlock} to ${endBlock} for chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        
+        await this.db.query(
+          `INSERT INTO validation_stats
+           (chain_id, validation_type, status, details, validated_at)
+           VALUES ($1, $2, $3, $4, NOW())`,
+          [chainId, 'gap_repair', 'failure', `Blocks ${startBlock} to ${endBlock}: ${error instanceof Error ? error.message : 'Unknown error'}`]
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import { ethers } from 'ethers';
+import { Pool } from 'pg';
+import { PositionReconciler } from './positionReconciler';
+import { ProviderService } from '../services/providerService';
+import { multicall } from '../services/multicall';
+import { createTestDb, insertChain } from '../../testing/testDb';
+import XBurnNFTABI from '../../contracts/XBurnNFT.json';
+
+jest.mock('../services/multicall', () => ({ multicall: jest.fn() }));
+
+const xburnNftInterface = new ethers.Interface(XBurnNFTABI);
+
+const CHAIN_ID = 31337;
+// pg-mem keeps NUMERIC values as doubles, so amounts stay well below 2^53 wei
+const XBURN = BigInt(1000000);
+const XEN_AMOUNT = BigInt(1000000) * XBURN;
+const MATURITY_TS = 1767225600;
+const OWNER = '0x00000000000000000000000000000000000000b1';
+
+/**
+ * Lock details as getLockDetails returns them
+ */
+interface LockDetails {
+  xenAmount: bigint;
+  maturityTs: number;
+  ampSnapshot: number;
+  termDays: number;
+  claimed: boolean;
+  rewardAmount: bigint;
+  baseMint: bigint;
+}
+
+// A one-year lock at the starting amplifier
+const PROJECTED_LOCK: LockDetails = {
+  xenAmount: XEN_AMOUNT,
+  maturityTs: MATURITY_TS,
+  ampSnapshot: 3000,
+  termDays: 365,
+  claimed: false,
+  rewardAmount: XBURN + XBURN / BigInt(10),
+  baseMint: XBURN
+};
+
+/**
+ * Answer every getLockDetails call of the next reconciliations with the same details
+ */
+function mockLockDetails(details: LockDetails): void {
+  const returnData = xburnNftInterface.encodeFunctionResult('getLockDetails', [
+    details.xenAmount, details.maturityTs, details.ampSnapshot, details.termDays,
+    details.claimed, details.rewardAmount, details.baseMint, OWNER
+  ]);
+  
+  jest.mocked(multicall).mockImplementation(async (_provider, calls) => calls.map(() => ({ success: true, returnData })));
+}
+
+describe('PositionReconciler', () => {
+  let pool: Pool;
+  let reconciler: PositionReconciler;
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.mocked(multicall).mockReset();
+    
+    pool = createTestDb().pool;
+    reconciler = new PositionReconciler(pool, { getProvider: () => ({}) } as unknown as ProviderService);
+    await insertChain(pool, CHAIN_ID);
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  /**
+   * Insert a position matching PROJECTED_LOCK
+   */
+  async function insertPosition(status: string): Promise<void> {
+    await pool.query(
+      `INSERT INTO burn_positions
+       (chain_id, nft_id, user_address, xen_burned_total, lock_period_days, maturity_timestamp,
+        mint_transaction_hash, mint_block_timestamp, mint_block_number, status, amplifier_at_burn,
+        xburn_reward_potential)
+       VALUES ($1, '1', $2, $3, 365, $4, '0xtx', '2025-01-01 00:00:00', 100, $5, 3000, $6)`,
+      [
+        CHAIN_ID,
+        OWNER,
+        XEN_AMOUNT.toString(),
+        new Date(MATURITY_TS * 1000),
+        status,
+        PROJECTED_LOCK.rewardAmount.toString()
+      ]
+    );
+  }
+  
+  /**
+   * Fields of the recorded drift rows
+   */
+  async function driftFields(): Promise<string[]> {
+    const drift = await pool.query(`SELECT field FROM position_drift WHERE chain_id = $1 ORDER BY id`, [CHAIN_ID]);
+    return drift.rows.map(row => row.field);
+  }
+  
+  describe('reward projection', () => {
+    it('stores getLockDetails.rewardAmount as the projection and records no drift when it matches', async () => {
+      await insertPosition('locked');
+      mockLockDetails(PROJECTED_LOCK);
+      
+      const result = await reconciler.reconcileChain(CHAIN_ID);
+      
+      expect(result).toMatchObject({ checked: 1, drifted: 0 });
+      expect(await driftFields()).toEqual([]);
+      
+      const position = await pool.query(`SELECT xburn_reward_projected FROM burn_positions WHERE chain_id = $1`, [CHAIN_ID]);
+      expect(BigInt(position.rows[0].xburn_reward_projected)).toBe(PROJECTED_LOCK.rewardAmount);
+    });
+    
+    it('follows rewardAmount even when reward drift is not fixed', async () => {
+      reconciler = new PositionReconciler(pool, { getProvider: () => ({}) } as unknown as ProviderService, false);
+      await insertPosition('locked');
+      mockLockDetails({ ...PROJECTED_LOCK, rewardAmount: XBURN * BigInt(2) });
+      
+      const result = await reconciler.reconcileChain(CHAIN_ID);
+      
+      expect(result).toMatchObject({ drifted: 1, fixed: 0 });
+      expect(await driftFields()).toEqual(['xburn_reward_potential']);
+      
+      const position = await pool.query(
+        `SELECT xburn_reward_potential, xburn_reward_projected FROM burn_positions WHERE chain_id = $1`,
+        [CHAIN_ID]
+      );
+      expect(BigInt(position.rows[0].xburn_reward_potential)).toBe(PROJECTED_LOCK.rewardAmount);
+      expect(BigInt(position.rows[0].xburn_reward_projected)).toBe(XBURN * BigInt(2));
+    });
+  });
+  
+  describe('amplifier', () => {
+    it('records an amplifier mismatch once while it stays the same', async () => {
+      // Genesis a day before the mint, so the XEN amplifier at the mint is 2999
+      await pool.query(`UPDATE chains SET xen_genesis_ts = $2 WHERE chain_id = $1`, [CHAIN_ID, 1735603200]);
+      await insertPosition('locked');
+      mockLockDetails(PROJECTED_LOCK);
+      
+      const first = await reconciler.reconcileChain(CHAIN_ID);
+      const second = await reconciler.reconcileChain(CHAIN_ID);
+      
+      expect(first.amplifierMismatches).toBe(1);
+      expect(second.amplifierMismatches).toBe(1);
+      
+      const drift = await pool.query(`SELECT field, db_value, chain_value FROM position_drift WHERE chain_id = $1`, [CHAIN_ID]);
+      expect(drift.rows).toEqual([{ field: 'xen_amplifier', db_value: '3000', chain_value: '2999' }]);
+    });
+  });
+  
+  describe('lock details', () => {
+    it('records unfixed drift once while it stays the same', async () => {
+      reconciler = new PositionReconciler(pool, { getProvider: () => ({}) } as unknown as ProviderService, false);
+      await insertPosition('locked');
+      mockLockDetails({ ...PROJECTED_LOCK, maturityTs: MATURITY_TS + 86400 });
+      
+      const first = await reconciler.reconcileChain(CHAIN_ID);
+      const second = await reconciler.reconcileChain(CHAIN_ID);
+      
+      expect(first).toMatchObject({ drifted: 1, fixed: 0 });
+      expect(second).toMatchObject({ drifted: 1, fixed: 0 });
+      expect(await driftFields()).toEqual(['maturity_timestamp']);
+    });
+    
+    it('leaves claimed and emergency-ended positions to full runs when filling', async () => {
+      await insertPosition('claimed');
+      await pool.query(
+        `UPDATE burn_positions SET amplifier_at_burn = NULL, xburn_reward_projected = NULL WHERE chain_id = $1`,
+        [CHAIN_ID]
+      );
+      mockLockDetails({ ...PROJECTED_LOCK, claimed: true });
+      
+      expect((await reconciler.reconcileChain(CHAIN_ID, { onlyUnfilled: true })).checked).toBe(0);
+      expect(multicall).not.toHaveBeenCalled();
+      
+      expect((await reconciler.reconcileChain(CHAIN_ID)).checked).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,357 @@
+import { ethers } from 'ethers';
+import { Pool } from 'pg';
+import { ProviderService } from '../services/providerService';
+import { multicall } from '../services/multicall';
+import { amplifierAt } from '../analytics/amplifier';
+import XBurnNFTABI from '../../contracts/XBurnNFT.json';
+
+const xburnNftInterface = new ethers.Interface(XBurnNFTABI);
+
+// Number of positions loaded and checked per round trip
+const RECONCILE_PAGE_SIZE = 500;
+
+// Claimed and emergency-ended positions are settled; values they still miss are only filled by full runs
+const UNFILLED_CONDITION = `AND status = 'locked'
+  AND (amplifier_at_burn IS NULL OR xburn_reward_potential IS NULL OR xburn_reward_projected IS NULL)`;
+
+/**
+ * Options for a reconciliation run
+ */
+export interface ReconcileOptions {
+  onlyUnfilled?: boolean; // Only check locked positions whose amplifier, reward or projection is still missing
+}
+
+/**
+ * Summary of a reconciliation run
+ */
+export interface ReconcileResult {
+  chainId: number;
+  checked: number;
+  filled: number;
+  drifted: number;
+  fixed: number;
+  unavailable: number;
+  amplifierMismatches: number; // Positions whose amplifier differs from the XEN amplifier at their mint
+}
+
+/**
+ * burn_positions columns read for reconciliation
+ */
+interface PositionRow {
+  id: number;
+  nft_id: string;
+  status: string;
+  amplifier_at_burn: string | null;
+  xburn_reward_potential: string | null;
+  xen_burned_total: string | null;
+  lock_period_days: number | null;
+  maturity_timestamp: Date | null;
+  mint_block_timestamp: Date;
+  xburn_reward_projected: string | null;
+}
+
+/**
+ * Value written to a burn_positions column
+ */
+type ColumnValue = string | number | Date;
+
+/**
+ * A DB column compared against a getLockDetails field
+ */
+interface ReconciledField {
+  column: string;
+  dbValue: (row: PositionRow) => string | null;
+  chainValue: (details: ethers.Result) => string;
+  toColumn: (details: ethers.Result) => ColumnValue;
+}
+
+// Columns that are filled from, and fixed to, the contract's lock details
+const RECONCILED_FIELDS: ReconciledField[] = [
+  {
+    column: 'amplifier_at_burn',
+    dbValue: row => row.amplifier_at_burn,
+    chainValue: details => details.ampSnapshot.toString(),
+    toColumn: details => details.ampSnapshot.toString()
+  },
+  {
+    column: 'xburn_reward_potential',
+    dbValue: row => row.xburn_reward_potential,
+    chainValue: details => details.rewardAmount.toString(),
+    toColumn: details => details.rewardAmount.toString()
+  },
+  {
+    column: 'xen_burned_total',
+    dbValue: row => row.xen_burned_total,
+    chainValue: details => details.xenAmount.toString(),
+    toColumn: details => details.xenAmount.toString()
+  },
+  {
+    column: 'lock_period_days',
+    dbValue: row => row.lock_period_days === null ? null : row.lock_period_days.toString(),
+    chainValue: details => details.termDaysOutput.toString(),
+    toColumn: details => Number(details.termDaysOutput)
+  },
+  {
+    column: 'maturity_timestamp',
+    dbValue: row => row.maturity_timestamp === null ? null : Math.floor(new Date(row.maturity_timestamp).getTime() / 1000).toString(),
+    chainValue: details => details.maturityTs.toString(),
+    toColumn: details => new Date(Number(details.maturityTs) * 1000)
+  }
+];
+
+/**
+ * PositionReconciler compares burn_positions with XBurnNFT.getLockDetails, fills the amplifier
+ * and reward values that events do not carry, and records any drift in position_drift
+ */
+export class PositionReconciler {
+  private db: Pool;
+  private providerService: ProviderService;
+  private autoFix: boolean;
+  
+  /**
+   * Create a new PositionReconciler instance
+   * @param db Database pool
+   * @param providerService Shared RPC providers
+   * @param autoFix Whether drifted columns are overwritten with the chain value or only reported
+   */
+  constructor(db: Pool, providerService: ProviderService, autoFix: boolean = true) {
+    this.db = db;
+    this.providerService = providerService;
+    this.autoFix = autoFix;
+  }
+  
+  /**
+   * Reconcile the positions of a chain and log the outcome in validation_stats
+   * @param chainId Chain ID
+   * @param options Reconciliation options
+   * @returns Reconciliation summary
+   */
+  async reconcileChain(chainId: number, options: ReconcileOptions = {}): Promise<ReconcileResult> {
+    const result: ReconcileResult = { chainId, checked: 0, filled: 0, drifted: 0, fixed: 0, unavailable: 0, amplifierMismatches: 0 };
+    
+    try {
+      const provider = this.providerService.getProvider(chainId);
+      
+      const chainResult = await this.db.query(
+        `SELECT xburn_nft_contract_address, xen_genesis_ts FROM chains WHERE chain_id = $1`,
+        [chainId]
+      );
+      if (chainResult.rows.length === 0) {
+        throw new Error(`Chain ${chainId} not found in database`);
+      }
+      const nftAddress = chainResult.rows[0].xburn_nft_contract_address;
+      const genesisTs = chainResult.rows[0].xen_genesis_ts === null ? null : Number(chainResult.rows[0].xen_genesis_ts);
+      
+      let lastId = 0;
+      
+      while (true) {
+        const positions = await this.db.query(
+          `SELECT id, nft_id, status, amplifier_at_burn, xburn_reward_potential,
+                  xen_burned_total, lock_period_days, maturity_timestamp, mint_block_timestamp,
+                  xburn_reward_projected
+           FROM burn_positions
+           WHERE chain_id = $1 AND id > $2
+             ${options.onlyUnfilled ? UNFILLED_CONDITION : ''}
+           ORDER BY id
+           LIMIT $3`,
+          [chainId, lastId, RECONCILE_PAGE_SIZE]
+        );
+        
+        if (positions.rows.length === 0) {
+          break;
+        }
+        
+        const calls = positions.rows.map(row => ({
+          target: nftAddress,
+          callData: xburnNftInterface.encodeFunctionData('getLockDetails', [row.nft_id])
+        }));
+        const callResults = await multicall(provider, calls);
+        
+        for (let i = 0; i < positions.rows.length; i++) {
+          const row = positions.rows[i];
+          result.checked++;
+          
+          // Burned tokens (emergency ends) no longer have lock details
+          if (!callResults[i].success || callResults[i].returnData === '0x') {
+            result.unavailable++;
+            continue;
+          }
+          
+          const details = xburnNftInterface.decodeFunctionResult('getLockDetails', callResults[i].returnData);
+          await this.reconcilePosition(chainId, row, details, result);
+          
+          if (genesisTs !== null) {
+            await this.checkAmplifier(chainId, row, details, genesisTs, result);
+          }
+        }
+        
+        lastId = positions.rows[positions.rows.length - 1].id;
+      }
+      
+      await this.db.query(
+        `INSERT INTO validation_stats
+         (chain_id, validation_type, status, details, validated_at)
+         VALUES ($1, $2, $3, $4, NOW())`,
+        [
+          chainId,
+          'reconciliation',
+          result.drifted > result.fixed ? 'drift' : 'success',
+          `Checked ${result.checked} positions: ${result.filled} filled, ${result.drifted} drifted (${result.fixed} fixed), ${result.unavailable} unavailable, ${result.amplifierMismatches} amplifier mismatches`
+        ]
+      );
+      
+      console.log(`Position reconciliation completed for chain ${chainId}: ${result.checked} checked, ${result.filled} filled, ${result.drifted} drifted, ${result.fixed} fixed`);
+    } catch (error) {
+      console.error(`Error reconciling positions for chain ${chainId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      
+      await this.db.query(
+        `INSERT INTO validation_stats
+         (chain_id, validation_type, status, details, validated_at)
+         VALUES ($1, $2, $3, $4, NOW())`,
+        [chainId, 'reconciliation', 'failure', `Error: ${error instanceof Error ? error.message : 'Unknown error'}`]
+      );
+      
+      throw error;
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Compare one position with its lock details, fill missing values and record drift
+   * @param chainId Chain ID
+   * @param row burn_positions row
+   * @param details Decoded getLockDetails result
+   * @param result Running summary, updated in place
+   */
+  private async reconcilePosition(chainId: number, row: PositionRow, details: ethers.Result, result: ReconcileResult): Promise<void> {
+    const updates: Record<string, ColumnValue> = {};
+    
+    for (const field of RECONCILED_FIELDS) {
+      const dbValue = field.dbValue(row);
+      const chainValue = field.chainValue(details);
+      
+      if (dbValue === null) {
+        // Values that events do not carry are simply filled
+        updates[field.column] = field.toColumn(details);
+        result.filled++;
+        continue;
+      }
+      
+      if (BigInt(dbValue) === BigInt(chainValue)) {
+        continue;
+      }
+      
+      result.drifted++;
+      
+      if (this.autoFix) {
+        await this.recordDrift(chainId, row.nft_id, field.column, dbValue, chainValue, true);
+        updates[field.column] = field.toColumn(details);
+        result.fixed++;
+      } else {
+        // Unfixed drift is found again on every run
+        await this.recordDriftOnce(chainId, row.nft_id, field.column, dbValue, chainValue);
+      }
+    }
+    
+    // A claim we never saw (or one the chain does not know) cannot be repaired from lock details alone
+    const dbClaimed = row.status === 'claimed';
+    if (dbClaimed !== details.claimed) {
+      result.drifted++;
+      await this.recordDriftOnce(chainId, row.nft_id, 'status', row.status, details.claimed ? 'claimed' : 'unclaimed');
+    }
+    
+    // The projection is the contract's own rewardAmount as last read, whether or not drift is fixed
+    const rewardAmount = details.rewardAmount.toString();
+    if (row.xburn_reward_projected === null || BigInt(row.xburn_reward_projected) !== BigInt(rewardAmount)) {
+      updates.xburn_reward_projected = rewardAmount;
+    }
+    
+    const columns = Object.keys(updates);
+    if (columns.length === 0) {
+      return;
+    }
+    
+    await this.db.query(
+      `UPDATE burn_positions
+       SET ${columns.map((column, index) => `${column} = $${index + 3}`).join(', ')}, updated_at = NOW()
+       WHERE chain_id = $1 AND nft_id = $2`,
+      [chainId, row.nft_id, ...columns.map(column => updates[column])]
+    );
+  }
+  
+  /**
+   * Compare a position's amplifier with the XEN amplifier at its mint time
+   * @param chainId Chain ID
+   * @param row burn_positions row
+   * @param details Decoded getLockDetails result
+   * @param genesisTs XEN contract genesis timestamp, in seconds
+   * @param result Running summary, updated in place
+   */
+  private async checkAmplifier(chainId: number, row: PositionRow, details: ethers.Result, genesisTs: number, result: ReconcileResult): Promise<void> {
+    const mintTimestamp = Math.floor(new Date(row.mint_block_timestamp).getTime() / 1000);
+    const expected = amplifierAt(genesisTs, mintTimestamp).toString();
+    const amplifier = details.ampSnapshot.toString();
+    
+    if (BigInt(amplifier) === BigInt(expected)) {
+      return;
+    }
+    
+    result.amplifierMismatches++;
+    await this.recordDriftOnce(chainId, row.nft_id, 'xen_amplifier', amplifier, expected);
+  }
+  
+  /**
+   * Record an unfixed difference unless the latest drift recorded for the field has the same values,
+   * so a check that runs on every reconciliation reports each mismatch once
+   * @param chainId Chain ID
+   * @param nftId Token ID
+   * @param field Field that differs
+   * @param dbValue Value in the database or computed by the indexer
+   * @param chainValue Value reported by the chain
+   */
+  private async recordDriftOnce(chainId: number, nftId: string, field: string, dbValue: string, chainValue: string): Promise<void> {
+    if (dbValue === chainValue) {
+      return;
+    }
+    
+    const last = await this.db.query(
+      `SELECT db_value, chain_value FROM position_drift
+       WHERE chain_id = $1 AND nft_id = $2 AND field = $3
+       ORDER BY id DESC LIMIT 1`,
+      [chainId, nftId, field]
+    );
+    
+    if (last.rows.length > 0 && last.rows[0].db_value === dbValue && last.rows[0].chain_value === chainValue) {
+      return;
+    }
+    
+    await this.recordDrift(chainId, nftId, field, dbValue, chainValue, false);
+  }
+  
+  /**
+   * Record a difference between the database and the chain
+   * @param chainId Chain ID
+   * @param nftId Token ID
+   * @param field Column that differs
+   * @param dbValue Value in the database
+   * @param chainValue Value reported by the contract
+   * @param fixed Whether the column was overwritten with the chain value
+   */
+  private async recordDrift(
+    chainId: number,
+    nftId: string,
+    field: string,
+    dbValue: string,
+    chainValue: string,
+    fixed: boolean
+  ): Promise<void> {
+    console.warn(`Position ${nftId} on chain ${chainId} drifted on ${field}: database ${dbValue}, chain ${chainValue}${fixed ? ' (fixed)' : ''}`);
+    
+    await this.db.query(
+      `INSERT INTO position_drift (chain_id, nft_id, field, db_value, chain_value, fixed, detected_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW())`,
+      [chainId, nftId, field, dbValue, chainValue, fixed]
+    );
+  }
+}
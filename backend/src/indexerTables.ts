@@ -0,0 +1,207 @@
+/**
+ * Tables the indexer creates on startup in addition to schema.sql, for databases created before they existed.
+ * Every statement is idempotent.
+ */
+export const INDEXER_TABLES_SQL = `
+  CREATE TABLE IF NOT EXISTS block_timestamps (
+    chain_id INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_timestamp TIMESTAMP NOT NULL,
+    PRIMARY KEY (chain_id, block_number)
+  );
+  
+  CREATE TABLE IF NOT EXISTS block_gaps (
+    chain_id INTEGER NOT NULL,
+    start_block BIGINT NOT NULL,
+    end_block BIGINT NOT NULL,
+    gap_size INTEGER NOT NULL,
+    detected_at TIMESTAMP NOT NULL,
+    processed BOOLEAN DEFAULT false,
+    PRIMARY KEY (chain_id, start_block)
+  );
+  
+  CREATE TABLE IF NOT EXISTS validation_stats (
+    id SERIAL PRIMARY KEY,
+    chain_id INTEGER NOT NULL,
+    validation_type VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    details TEXT,
+    validated_at TIMESTAMP NOT NULL
+  );
+  
+  CREATE TABLE IF NOT EXISTS indexed_blocks (
+    chain_id INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash TEXT NOT NULL,
+    parent_hash TEXT NOT NULL,
+    is_tip BOOLEAN NOT NULL DEFAULT false,
+    indexed_at TIMESTAMP NOT NULL,
+    PRIMARY KEY (chain_id, block_number)
+  );
+  
+  ALTER TABLE indexed_blocks ADD COLUMN IF NOT EXISTS is_tip BOOLEAN NOT NULL DEFAULT false;
+  
+  CREATE TABLE IF NOT EXISTS raw_logs (
+    chain_id INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash TEXT NOT NULL,
+    block_timestamp TIMESTAMP NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    transaction_index INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    topics TEXT[] NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (chain_id, transaction_hash, log_index)
+  );
+  
+  CREATE INDEX IF NOT EXISTS raw_logs_chain_block_idx ON raw_logs(chain_id, block_number, log_index);
+  
+  -- Contract called by each transaction that burns XEN without an XENBurned event; null for a contract
+  -- creation. Replay classifies burns from this table, so it is never truncated with burn_events.
+  CREATE TABLE IF NOT EXISTS burn_callers (
+    chain_id INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    caller TEXT,
+    PRIMARY KEY (chain_id, transaction_hash)
+  );
+  
+  -- Only unsettled rows are revisited when the finality thresholds move
+  CREATE INDEX IF NOT EXISTS burn_events_unsettled_idx ON burn_events(chain_id, block_number) WHERE finality <> 'final';
+  CREATE INDEX IF NOT EXISTS burn_positions_unsettled_idx ON burn_positions(chain_id) WHERE finality <> 'final';
+  
+  CREATE TABLE IF NOT EXISTS block_coverage (
+    id SERIAL PRIMARY KEY,
+    chain_id INTEGER NOT NULL,
+    from_block BIGINT NOT NULL,
+    to_block BIGINT NOT NULL,
+    scanned_at TIMESTAMP NOT NULL
+  );
+  
+  CREATE INDEX IF NOT EXISTS block_coverage_chain_range_idx ON block_coverage(chain_id, from_block);
+  
+  CREATE TABLE IF NOT EXISTS position_drift (
+    id SERIAL PRIMARY KEY,
+    chain_id INTEGER NOT NULL,
+    nft_id TEXT NOT NULL,
+    field VARCHAR(50) NOT NULL,
+    db_value TEXT,
+    chain_value TEXT,
+    fixed BOOLEAN NOT NULL DEFAULT false,
+    detected_at TIMESTAMP NOT NULL
+  );
+  
+  CREATE TABLE IF NOT EXISTS reindex_jobs (
+    id SERIAL PRIMARY KEY,
+    chain_id INTEGER NOT NULL,
+    from_block BIGINT NOT NULL,
+    to_block BIGINT NOT NULL,
+    last_block BIGINT,
+    status VARCHAR(20) NOT NULL,
+    events_applied INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at TIMESTAMP NOT NULL,
+    updated_at TIMESTAMP NOT NULL,
+    completed_at TIMESTAMP
+  );
+  
+  CREATE TABLE IF NOT EXISTS reorg_log (
+    id SERIAL PRIMARY KEY,
+    chain_id INTEGER NOT NULL,
+    detected_block BIGINT NOT NULL,
+    common_ancestor BIGINT NOT NULL,
+    depth INTEGER NOT NULL,
+    orphaned_hash TEXT,
+    canonical_hash TEXT,
+    events_removed INTEGER NOT NULL,
+    positions_removed INTEGER NOT NULL,
+    positions_reverted INTEGER NOT NULL,
+    detected_at TIMESTAMP NOT NULL
+  );
+  
+  CREATE TABLE IF NOT EXISTS data_integrity (
+    id SERIAL PRIMARY KEY,
+    chain_id INTEGER NOT NULL,
+    hash_value TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL
+  );
+  
+  CREATE TABLE IF NOT EXISTS job_runs (
+    id SERIAL PRIMARY KEY,
+    job_name VARCHAR(100) NOT NULL,
+    trigger VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    details TEXT,
+    error TEXT,
+    started_at TIMESTAMP NOT NULL,
+    finished_at TIMESTAMP
+  );
+  
+  CREATE INDEX IF NOT EXISTS idx_job_runs_job_started ON job_runs(job_name, started_at DESC);
+  
+  CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id SERIAL PRIMARY KEY,
+    actor VARCHAR(100) NOT NULL,
+    action VARCHAR(50) NOT NULL,
+    chain_id INTEGER,
+    details JSONB,
+    created_at TIMESTAMP NOT NULL
+  );
+  
+  CREATE TABLE IF NOT EXISTS analytics_history (
+    id BIGSERIAL PRIMARY KEY,
+    metric_name TEXT NOT NULL,
+    metric_value NUMERIC NOT NULL,
+    recorded_at TIMESTAMP NOT NULL
+  );
+  
+  CREATE INDEX IF NOT EXISTS analytics_history_metric_recorded_idx ON analytics_history(metric_name, recorded_at);
+  
+  -- Per-chain activity by UTC bucket and event type, maintained by every batch, reorg and replay
+  CREATE TABLE IF NOT EXISTS burn_rollups_hourly (
+    chain_id INTEGER NOT NULL,
+    bucket TIMESTAMP NOT NULL,
+    event_type TEXT NOT NULL,
+    burn_volume NUMERIC(78, 0) NOT NULL,
+    tx_count INTEGER NOT NULL,
+    unique_burners INTEGER NOT NULL,
+    positions_opened INTEGER NOT NULL,
+    positions_claimed INTEGER NOT NULL,
+    xburn_claimed NUMERIC(78, 0) NOT NULL,
+    updated_at TIMESTAMP NOT NULL,
+    PRIMARY KEY (chain_id, bucket, event_type)
+  );
+  
+  CREATE TABLE IF NOT EXISTS burn_rollups_daily (
+    chain_id INTEGER NOT NULL,
+    bucket TIMESTAMP NOT NULL,
+    event_type TEXT NOT NULL,
+    burn_volume NUMERIC(78, 0) NOT NULL,
+    tx_count INTEGER NOT NULL,
+    unique_burners INTEGER NOT NULL,
+    positions_opened INTEGER NOT NULL,
+    positions_claimed INTEGER NOT NULL,
+    xburn_claimed NUMERIC(78, 0) NOT NULL,
+    updated_at TIMESTAMP NOT NULL,
+    PRIMARY KEY (chain_id, bucket, event_type)
+  );
+  
+  CREATE INDEX IF NOT EXISTS burn_rollups_hourly_bucket_idx ON burn_rollups_hourly(bucket);
+  CREATE INDEX IF NOT EXISTS burn_rollups_daily_bucket_idx ON burn_rollups_daily(bucket);
+  
+  -- Every write to analytics, from any refresh, appends a point to its history
+  CREATE OR REPLACE FUNCTION record_analytics_history()
+  RETURNS TRIGGER AS $$
+  BEGIN
+    INSERT INTO analytics_history (metric_name, metric_value, recorded_at)
+    VALUES (NEW.metric_name, NEW.metric_value, NEW.last_updated);
+    RETURN NEW;
+  END;
+  $$ LANGUAGE plpgsql;
+  
+  DROP TRIGGER IF EXISTS record_analytics_history ON analytics;
+  CREATE TRIGGER record_analytics_history
+  AFTER INSERT OR UPDATE ON analytics
+  FOR EACH ROW
+  EXECUTE FUNCTION record_analytics_history();
+`;
@@ -0,0 +1,62 @@
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+import { ReindexService } from './indexer/services/reindexService';
+import { ReorgService } from './indexer/services/reorgService';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = 'Usage: npm run reindex -- --chain <chainId> --from <block> --to <block> [--dry-run]';
+
+/**
+ * Read the numeric value following a flag
+ * @param args Command-line arguments
+ * @param flag Flag name
+ * @returns Parsed value, or NaN if missing
+ */
+function numberArg(args: string[], flag: string): number {
+  const index = args.indexOf(flag);
+  return index >= 0 ? parseInt(args[index + 1]) : NaN;
+}
+
+/**
+ * Reindex a block range alongside the live indexer.
+ * Re-running the same range resumes an interrupted run from its last committed batch.
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const chainId = numberArg(args, '--chain');
+  const fromBlock = numberArg(args, '--from');
+  const toBlock = numberArg(args, '--to');
+  const dryRun = args.includes('--dry-run');
+  
+  if (isNaN(chainId) || isNaN(fromBlock) || isNaN(toBlock)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  
+  const db = new Pool({
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5432'),
+    database: process.env.DB_NAME || 'xen_burn_analytics',
+    user: process.env.DB_USER || 'xenuser',
+    password: process.env.DB_PASSWORD || 'yourpassword',
+    ssl: process.env.DB_SSL === 'true' ? { rejectUnauthorized: false } : undefined
+  });
+  
+  try {
+    const reindexService = new ReindexService(db, new ReorgService(db));
+    const result = await reindexService.run({ chainId, fromBlock, toBlock, dryRun });
+    
+    if (dryRun) {
+      console.log('Events found:', result.eventCounts);
+    }
+  } finally {
+    await db.end();
+  }
+}
+
+main().catch(error => {
+  console.error('Reindex failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,47 @@
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+import { EventProcessor } from './indexer/processors/eventProcessor';
+import { ReorgService } from './indexer/services/reorgService';
+import { ReplayService } from './indexer/services/replayService';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Rebuild burn_events and burn_positions from stored raw logs, without RPC access.
+ *
+ * Usage: npm run replay -- --chain <chainId> [--force]
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const chainIndex = args.indexOf('--chain');
+  const chainId = chainIndex >= 0 ? parseInt(args[chainIndex + 1]) : NaN;
+  const force = args.includes('--force');
+  
+  if (isNaN(chainId)) {
+    console.error('Usage: npm run replay -- --chain <chainId> [--force]');
+    process.exit(1);
+  }
+  
+  const db = new Pool({
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5432'),
+    database: process.env.DB_NAME || 'xen_burn_analytics',
+    user: process.env.DB_USER || 'xenuser',
+    password: process.env.DB_PASSWORD || 'yourpassword',
+    ssl: process.env.DB_SSL === 'true' ? { rejectUnauthorized: false } : undefined
+  });
+  
+  try {
+    const eventProcessor = new EventProcessor(db, new ReorgService(db));
+    const replayService = new ReplayService(db, eventProcessor);
+    await replayService.replayChain(chainId, { force });
+  } finally {
+    await db.end();
+  }
+}
+
+main().catch(error => {
+  console.error('Replay failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import { Pool } from 'pg';
+import { DataType, IMemoryDb, newDb } from 'pg-mem';
+import { INDEXER_TABLES_SQL } from '../indexerTables';
+
+/**
+ * In-memory database with the indexer schema, for tests
+ */
+export interface TestDb {
+  mem: IMemoryDb;
+  pool: Pool;
+}
+
+/**
+ * Truncate a timestamp to the start of its hour or day, in UTC
+ * @param unit Bucket width
+ * @param timestamp Timestamp to truncate
+ * @returns Start of the bucket
+ */
+function dateTrunc(unit: string, timestamp: Date): Date {
+  const truncated = new Date(timestamp.getTime());
+  
+  switch (unit) {
+    case 'day':
+      truncated.setUTCHours(0, 0, 0, 0);
+      return truncated;
+    case 'hour':
+      truncated.setUTCMinutes(0, 0, 0);
+      return truncated;
+    default:
+      throw new Error(`date_trunc unit ${unit} is not supported in tests`);
+  }
+}
+
+/**
+ * Create an in-memory database from schema.sql and the startup tables. PL/pgSQL functions and
+ * triggers are not supported by pg-mem and are left out.
+ * @returns In-memory database and a pg-compatible pool connected to it
+ */
+export function createTestDb(): TestDb {
+  const mem = newDb();
+  
+  mem.public.registerFunction({
+    name: 'date_trunc',
+    args: [DataType.text, DataType.timestamp],
+    returns: DataType.timestamp,
+    implementation: dateTrunc
+  });
+  
+  // Postgres casts now() to timestamp on assignment; pg-mem needs the column type up front
+  mem.getSchema('pg_catalog').registerFunction({
+    name: 'now',
+    returns: DataType.timestamp,
+    implementation: () => new Date(),
+    impure: true
+  }, true);
+  
+  const schema = fs.readFileSync(path.join(__dirname, '../../schema.sql'), 'utf8');
+  mem.public.none(schema.split('-- Function to update')[0]);
+  mem.public.none(INDEXER_TABLES_SQL.split('-- Every write to analytics')[0]);
+  
+  const { Pool: MemoryPool } = mem.adapters.createPg();
+  return { mem, pool: new MemoryPool() as Pool };
+}
+
+/**
+ * Insert a chain row
+ * @param pool Database pool
+ * @param chainId Chain ID
+ * @param lastIndexedBlock Chain checkpoint
+ */
+export async function insertChain(pool: Pool, chainId: number, lastIndexedBlock = 0): Promise<void> {
+  await pool.query(
+    `INSERT INTO chains (chain_id, chain_name, xen_contract_address, xburn_minter_contract_address,
+      xburn_nft_contract_address, last_indexed_block)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [
+      chainId,
+      `Chain ${chainId}`,
+      '0x0000000000000000000000000000000000000a01',
+      '0x0000000000000000000000000000000000000a02',
+      '0x0000000000000000000000000000000000000a03',
+      lastIndexedBlock
+    ]
+  );
+}